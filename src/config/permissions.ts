@@ -0,0 +1,78 @@
+// Roles and the permissions they grant. Role assignments live on the user
+// (`User.role`); the mapping below is fixed in code so it is reviewed with
+// every change.
+
+export const PERMISSIONS = [
+  'admin:access', // Reach /api/admin at all
+  'stats:read',
+  'users:read',
+  'users:write',
+  'users:delete',
+  'roles:manage',
+  'admins:manage', // Create, promote, demote or delete admin and superadmin accounts
+  'donations:read',
+  'donations:review',
+  'donations:reveal', // See masked payment details such as gift card codes
+  'donations:refund', // Record refunds and reversals
+  'currencies:write', // Accepted currencies, their minimums and exchange rates
+  'reasons:write',
+  'campaigns:write',
+  'decline_reasons:write', // Preset reasons shown to donors when a donation is declined
+  'communication_methods:write',
+  'payment_methods:read',
+  'payment_methods:write',
+  'security:manage', // Login lockouts
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['user', 'reviewer', 'finance', 'content_manager', 'admin', 'superadmin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  // Volunteers who check receipts and confirm or cancel donations
+  reviewer: ['admin:access', 'stats:read', 'donations:read', 'donations:review', 'payment_methods:read'],
+  // Reviewing plus refunds, currencies and the receiving accounts donors pay into
+  finance: [
+    'admin:access',
+    'stats:read',
+    'donations:read',
+    'donations:review',
+    'donations:reveal',
+    'donations:refund',
+    'currencies:write',
+    'payment_methods:read',
+    'payment_methods:write',
+  ],
+  // Donation reasons, campaigns and contact channels shown on the site
+  content_manager: [
+    'admin:access',
+    'stats:read',
+    'reasons:write',
+    'campaigns:write',
+    'communication_methods:write',
+    'payment_methods:read',
+  ],
+  // `admin` predates the finer roles and keeps everything it had, but only a
+  // superadmin can hand out or take away admin access
+  admin: PERMISSIONS.filter((p) => p !== 'admins:manage'),
+  superadmin: PERMISSIONS,
+};
+
+export const getPermissions = (role: string | undefined): readonly Permission[] =>
+  ROLE_PERMISSIONS[role as Role] || [];
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean =>
+  getPermissions(role).includes(permission);
+
+// Roles only holders of `admins:manage` may assign, change or delete
+export const PRIVILEGED_ROLES: readonly Role[] = ['admin', 'superadmin'];
+
+export const isPrivilegedRole = (role: string | undefined): boolean =>
+  PRIVILEGED_ROLES.includes(role as Role);
+
+// Any role that can reach the admin area
+export const isStaffRole = (role: string | undefined): boolean =>
+  hasPermission(role, 'admin:access');
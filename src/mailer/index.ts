@@ -0,0 +1,148 @@
+import EmailJob, { IEmailJob } from '../models/EmailJob';
+import { decryptField, encryptField } from '../utils/fieldEncryption';
+import { createTransportFromEnv, MailTransport } from './transports';
+import { MailTemplateData, MailTemplateName, renderTemplate } from './templates';
+
+export { MailTemplateName, MailTemplateData } from './templates';
+export { MailTransport, MailMessage, MemoryTransport } from './transports';
+
+const MAX_ATTEMPTS = parseInt(process.env.MAIL_MAX_ATTEMPTS || '', 10) || 5;
+const POLL_INTERVAL_MS = parseInt(process.env.MAIL_POLL_INTERVAL_MS || '', 10) || 10000;
+const RETRY_BASE_DELAY_MS = 30000; // 30s, 60s, 120s, ...
+const STALE_LOCK_MS = 10 * 60000; // Reclaim jobs a crashed worker left in "sending"
+const RETENTION_MS = (parseInt(process.env.MAIL_RETENTION_DAYS || '', 10) || 7) * 86400000;
+
+let transport: MailTransport | null = null;
+let workerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+export const getTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+};
+
+// Override the transport, e.g. with a MemoryTransport in tests
+export const setTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+const getFromAddress = (): string =>
+  process.env.MAIL_FROM || 'BANG CHAN Donation <no-reply@bang-donation.app>';
+
+// Put a template and its data on the queue; the worker renders it when
+// sending. Never throws: a mail problem must not fail the request that
+// triggered it.
+export const queueMail = async <K extends MailTemplateName>(
+  to: string,
+  template: K,
+  data: MailTemplateData[K]
+): Promise<void> => {
+  try {
+    await EmailJob.create({
+      to,
+      template,
+      data: encryptField(JSON.stringify(data)),
+    });
+  } catch (error) {
+    console.error(`Error queueing ${template} email:`, error);
+  }
+};
+
+const claimNextJob = async (): Promise<IEmailJob | null> => {
+  const now = new Date();
+  return EmailJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', next_attempt_at: { $lte: now } },
+        { status: 'sending', locked_at: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } },
+      ],
+    },
+    { status: 'sending', locked_at: now, $inc: { attempts: 1 } },
+    { sort: { next_attempt_at: 1 }, new: true }
+  );
+};
+
+const deliver = async (job: IEmailJob): Promise<void> => {
+  try {
+    const data = JSON.parse(decryptField(job.data));
+    const rendered = renderTemplate(job.template as MailTemplateName, data);
+
+    await getTransport().send({
+      from: getFromAddress(),
+      to: job.to,
+      ...rendered,
+    });
+
+    job.status = 'sent';
+    job.sent_at = new Date();
+    job.last_error = undefined;
+  } catch (error: any) {
+    job.last_error = error?.message || String(error);
+    if (job.attempts >= MAX_ATTEMPTS) {
+      job.status = 'failed';
+      console.error(`❌ Email ${job._id} to ${job.to} failed permanently: ${job.last_error}`);
+    } else {
+      job.status = 'pending';
+      job.next_attempt_at = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1));
+    }
+  }
+
+  if (job.status === 'sent' || job.status === 'failed') {
+    job.expires_at = new Date(Date.now() + RETENTION_MS);
+  }
+  job.locked_at = undefined;
+  await job.save();
+};
+
+// Send every job that is due. Returns the number of jobs attempted.
+export const processMailQueue = async (): Promise<number> => {
+  if (processing) return 0;
+  processing = true;
+
+  let attempted = 0;
+  try {
+    let job = await claimNextJob();
+    while (job) {
+      await deliver(job);
+      attempted++;
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('Error processing mail queue:', error);
+  } finally {
+    processing = false;
+  }
+
+  return attempted;
+};
+
+// Jobs finished before the TTL index existed have no expiry of their own
+const expireFinishedJobs = async (): Promise<void> => {
+  try {
+    await EmailJob.updateMany(
+      { status: { $in: ['sent', 'failed'] }, expires_at: { $exists: false } },
+      { expires_at: new Date(Date.now() + RETENTION_MS) }
+    );
+  } catch (error) {
+    console.error('Error expiring finished email jobs:', error);
+  }
+};
+
+export const startMailWorker = (): void => {
+  if (workerTimer) return;
+  console.log(`📧 Mail worker started (transport: ${getTransport().name})`);
+  expireFinishedJobs();
+  workerTimer = setInterval(() => {
+    processMailQueue();
+  }, POLL_INTERVAL_MS);
+  workerTimer.unref();
+};
+
+export const stopMailWorker = (): void => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
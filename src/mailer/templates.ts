@@ -0,0 +1,167 @@
+import { formatMoney } from '../utils/money';
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface DonationMailData {
+  full_name: string;
+  amount: number;
+  currency?: string; // ISO 4217, US dollars when unset
+  donation_id: string;
+}
+
+// Data each template needs, keyed by template name
+export interface MailTemplateData {
+  password_reset: { full_name: string; reset_url: string };
+  email_verification: { full_name: string; verification_url: string };
+  donation_received: DonationMailData;
+  donation_confirmed: DonationMailData;
+  donation_cancelled: DonationMailData & { reason?: string };
+  donation_refunded: DonationMailData & { refund_amount: number; reason?: string };
+  donation_reversed: DonationMailData & { refund_amount: number; reason?: string };
+  pledge_payment_due: DonationMailData & { cadence: string };
+  pledge_paused: {
+    full_name: string;
+    amount: number;
+    currency?: string;
+    cadence: string;
+    reason: string;
+  };
+  milestone_reached: {
+    full_name: string;
+    title: string;
+    percent: number;
+    raised: number;
+    target_amount: number;
+    currency?: string;
+  };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+const APP_NAME = 'BANG CHAN Donation';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Wrap paragraphs in the shared layout. Paragraphs are plain text and get
+// escaped; `action` renders as a button and as a bare link in the text part.
+const layout = (
+  subject: string,
+  greetingName: string,
+  paragraphs: string[],
+  action?: { label: string; url: string }
+): RenderedMail => {
+  const greeting = `Hi ${greetingName},`;
+  const textParts = [greeting, ...paragraphs];
+  if (action) {
+    textParts.push(`${action.label}: ${action.url}`);
+  }
+  textParts.push(`— ${APP_NAME}`);
+
+  const htmlParagraphs = paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join('\n');
+  const htmlAction = action
+    ? `<p><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;background:#111;color:#fff;text-decoration:none;border-radius:4px;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return {
+    subject,
+    text: textParts.join('\n\n'),
+    html: `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;line-height:1.5;color:#222;">
+<p>${escapeHtml(greeting)}</p>
+${htmlParagraphs}
+${htmlAction}
+<p style="color:#777;font-size:12px;">— ${APP_NAME}</p>
+</body>
+</html>`,
+  };
+};
+
+export const templates: { [K in MailTemplateName]: (data: MailTemplateData[K]) => RenderedMail } = {
+  password_reset: (data) =>
+    layout(
+      'Reset your password',
+      data.full_name,
+      [
+        'We received a request to reset your password. The link below is valid for 1 hour.',
+        "If you didn't ask for this, you can ignore this email.",
+      ],
+      { label: 'Reset password', url: data.reset_url }
+    ),
+
+  email_verification: (data) =>
+    layout(
+      'Verify your email address',
+      data.full_name,
+      ['Please confirm your email address to start donating. The link below is valid for 24 hours.'],
+      { label: 'Verify email', url: data.verification_url }
+    ),
+
+  donation_received: (data) =>
+    layout('We received your donation', data.full_name, [
+      `Thank you! Your donation of ${formatMoney(data.amount, data.currency)} has been received and is awaiting review.`,
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  donation_confirmed: (data) =>
+    layout('Your donation has been confirmed', data.full_name, [
+      `Your donation of ${formatMoney(data.amount, data.currency)} has been confirmed. Thank you for your support!`,
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  donation_cancelled: (data) =>
+    layout('Your donation was cancelled', data.full_name, [
+      `Your donation of ${formatMoney(data.amount, data.currency)} has been cancelled.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  donation_refunded: (data) =>
+    layout('Your donation was refunded', data.full_name, [
+      data.refund_amount < data.amount
+        ? `${formatMoney(data.refund_amount, data.currency)} of your ${formatMoney(data.amount, data.currency)} donation has been refunded to you.`
+        : `Your donation of ${formatMoney(data.amount, data.currency)} has been refunded to you.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  donation_reversed: (data) =>
+    layout('Your donation was reversed', data.full_name, [
+      `${formatMoney(data.refund_amount, data.currency)} of your ${formatMoney(data.amount, data.currency)} donation was returned by your bank or payment provider, so it no longer counts towards your total.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  pledge_payment_due: (data) =>
+    layout('Your pledged donation is due', data.full_name, [
+      `Your ${data.cadence} pledge of ${formatMoney(data.amount, data.currency)} is due. We have created a pending donation for it; please complete the payment and add your payment details to it.`,
+      'You can pause or cancel your pledge at any time.',
+      `Reference: ${data.donation_id}`,
+    ]),
+
+  pledge_paused: (data) =>
+    layout('Your pledge has been paused', data.full_name, [
+      `We could not create the donation for your ${data.cadence} pledge of ${formatMoney(data.amount, data.currency)}: ${data.reason}.`,
+      'Your pledge is paused. Update it if needed and resume it to continue giving.',
+    ]),
+
+  milestone_reached: (data) =>
+    layout(`${data.title} reached ${data.percent}% of its goal`, data.full_name, [
+      `${data.title} has raised ${formatMoney(data.raised, data.currency)} of its ${formatMoney(data.target_amount, data.currency)} goal, passing the ${data.percent}% milestone.`,
+    ]),
+};
+
+export const renderTemplate = <K extends MailTemplateName>(
+  name: K,
+  data: MailTemplateData[K]
+): RenderedMail => templates[name](data);
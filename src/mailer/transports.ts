@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a rendered message. Throwing marks the attempt as
+// failed and the queue retries it later.
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to a JSON file. Handy for local development.
+export class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private directory: string) {
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const filename = `${Date.now()}-${Math.round(Math.random() * 1E9)}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// Keeps the most recent messages in memory. Used in development when no
+// transport is configured, and in tests. Never delivers anything, so it is
+// refused in production.
+export class MemoryTransport implements MailTransport {
+  name = 'memory';
+  messages: MailMessage[] = [];
+
+  constructor(private limit = 100) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+    if (this.messages.length > this.limit) {
+      this.messages.splice(0, this.messages.length - this.limit);
+    }
+    console.log(`📧 [memory mail] To: ${message.to} | ${message.subject}`);
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
+
+// Mail that is marked sent but never delivered would lock users out of
+// verification and password resets, so production needs a real transport
+const memoryTransportFor = (reason: string): MailTransport => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${reason}; configure MAIL_TRANSPORT=smtp or file in production`);
+  }
+  console.warn(`⚠️  ${reason}, using the memory transport: emails will not be delivered`);
+  return new MemoryTransport();
+};
+
+// Pick a transport from MAIL_TRANSPORT (smtp, file or memory). Throws in
+// production when it would end up with the memory transport.
+export const createTransportFromEnv = (): MailTransport => {
+  const kind = (process.env.MAIL_TRANSPORT || 'memory').toLowerCase();
+
+  if (kind === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      return memoryTransportFor('MAIL_TRANSPORT=smtp but SMTP_HOST is not set');
+    }
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '', 10) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  }
+
+  if (kind === 'file') {
+    return new FileTransport(process.env.MAIL_FILE_DIR || path.join(__dirname, '../../mail-outbox'));
+  }
+
+  if (!process.env.MAIL_TRANSPORT) {
+    return memoryTransportFor('MAIL_TRANSPORT is not set');
+  }
+  return memoryTransportFor(kind === 'memory' ? 'MAIL_TRANSPORT=memory' : `Unknown MAIL_TRANSPORT "${kind}"`);
+};
@@ -1,12 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import User, { IUser } from '../models/User';
+import { hasPermission, isStaffRole, Permission } from '../config/permissions';
+import { IUser } from '../models/User';
+import { verifyAccessToken } from '../services/sessionService';
+import { isTwoFactorRequiredForAdmins } from '../services/twoFactorService';
+import { isHttpError } from '../utils/errors';
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string;
 }
 
-export const authenticate = async (
+export interface AuthenticateOptions {
+  requireVerified?: boolean; // Reject users who have not verified their email
+}
+
+// Build an authentication middleware. Use `authenticate` for the default
+// behaviour and `authenticateWith({ requireVerified: true })` on routes that
+// need a verified email address.
+export const authenticateWith = (options: AuthenticateOptions = {}) => async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -19,35 +30,81 @@ export const authenticate = async (
       return;
     }
 
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
+    if (!process.env.JWT_SECRET) {
       res.status(500).json({ message: 'Server configuration error' });
       return;
     }
-    const decoded = jwt.verify(token, secret) as { id: string };
-    const user = await User.findById(decoded.id).select('-password');
 
-    if (!user) {
-      res.status(401).json({ message: 'User not found' });
+    // Checks the signature, expiry and that the session has not been revoked
+    const { user, sessionId } = await verifyAccessToken(token);
+
+    if (options.requireVerified && !user.is_verified) {
+      res.status(403).json({
+        message: 'Please verify your email address to continue',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
       return;
     }
 
     req.user = user;
+    req.sessionId = sessionId;
     next();
   } catch (error) {
+    if (isHttpError(error)) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
     res.status(401).json({ message: 'Invalid or expired token' });
   }
 };
 
+export const authenticate = authenticateWith();
+
+// Allow any staff role into the admin area; individual routes narrow this
+// down with requirePermission
 export const isAdmin = (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): void => {
-  if (!req.user || req.user.role !== 'admin') {
+  if (!req.user || !isStaffRole(req.user.role)) {
     res.status(403).json({ message: 'Admin access required' });
     return;
   }
   next();
 };
 
+// Require every listed permission (see config/permissions.ts)
+export const requirePermission = (...permissions: Permission[]) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const missing = permissions.filter((p) => !hasPermission(req.user?.role, p));
+  if (!req.user || missing.length > 0) {
+    res.status(403).json({
+      message: 'You do not have permission to perform this action',
+      code: 'PERMISSION_DENIED',
+      missing_permissions: missing,
+    });
+    return;
+  }
+  next();
+};
+
+// With REQUIRE_ADMIN_2FA=true, admins and other staff roles have to enroll in
+// two-factor authentication (POST /api/auth/2fa/setup) before using admin routes
+export const requireAdminTwoFactor = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (isStaffRole(req.user?.role) && isTwoFactorRequiredForAdmins() && !req.user!.two_factor_enabled) {
+    res.status(403).json({
+      message: 'Two-factor authentication must be enabled for admin accounts',
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+    });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+} from '../services/idempotencyService';
+import { isHttpError } from '../utils/errors';
+
+// The body plus a hash of every uploaded file, so a retry with a different
+// receipt counts as a different request
+const requestPayload = (req: AuthRequest) => ({
+  body: req.body,
+  files: ((req.files as Express.Multer.File[] | undefined) || []).map((file) => ({
+    field: file.fieldname,
+    sha256: crypto.createHash('sha256').update(file.buffer).digest('hex'),
+  })),
+});
+
+export interface IdempotentOptions {
+  // What to keep of a successful response body (default: all of it)
+  store?: (body: any) => any;
+  // Rebuild the response from what was kept, e.g. reload the record and sign
+  // fresh URLs instead of replaying secrets or expired links
+  replay?: (stored: any) => Promise<any>;
+}
+
+// Honour an `Idempotency-Key` header. A retry with the same key and payload
+// gets the stored response (with `Idempotent-Replayed: true`) instead of
+// running the handler again. Successful responses are stored; failures
+// release the key so the client can retry. Place after `authenticate` and the
+// upload middleware so the body and files are parsed.
+export const idempotent = (scope: string, options: IdempotentOptions = {}) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    const result = await beginIdempotentRequest(req.user!._id, scope, key, requestPayload(req));
+
+    if ('replay' in result) {
+      const body = options.replay ? await options.replay(result.replay.body) : result.replay.body;
+      res.set('Idempotent-Replayed', 'true');
+      res.status(result.replay.status).json(body);
+      return;
+    }
+
+    const { record } = result;
+    // Store the outcome before the response goes out, so a retry sent as
+    // soon as the client sees it is already answered from the store
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      const settle = res.statusCode < 400
+        ? completeIdempotentRequest(record, res.statusCode, options.store ? options.store(body) : body)
+        : releaseIdempotentRequest(record);
+      settle
+        .catch((error) => console.error('Error storing idempotent response:', error))
+        .finally(() => json(body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    if (isHttpError(error)) {
+      res.status(error.status).json({ message: error.message, ...error.details });
+      return;
+    }
+    console.error('Idempotency check error:', error);
+    res.status(500).json({ message: 'Server error checking Idempotency-Key' });
+  }
+};
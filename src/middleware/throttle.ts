@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { ThrottleAction } from '../models/AuthThrottle';
+import { getLockStatus, ThrottleSubject } from '../services/throttleService';
+
+// IP and (optional) account a request is attributed to
+export const getThrottleSubject = (req: Request, account?: string): ThrottleSubject => ({
+  ip: req.ip || req.socket.remoteAddress,
+  account: account ? String(account).toLowerCase() : undefined,
+});
+
+// Reject requests while the caller's IP or the named account is locked out.
+// Place after the route's validators so `getAccount` sees normalized input.
+export const throttle = (
+  action: ThrottleAction,
+  getAccount?: (req: Request) => string | undefined
+) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = await getLockStatus(action, getThrottleSubject(req, getAccount?.(req)));
+    if (status.locked) {
+      res.set('Retry-After', String(status.retryAfterSeconds));
+      res.status(429).json({
+        message: 'Too many attempts. Please try again later.',
+        retry_after: status.retryAfterSeconds,
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    // Don't lock everyone out if the throttle store is unavailable
+    console.error('Throttle check error:', error);
+    next();
+  }
+};
@@ -1,38 +1,56 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
 
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(__dirname, '../../uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_FILES = 5; // One per file-type payment field
 
-// Configure storage
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadsDir);
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, 'receipt-' + uniqueSuffix + path.extname(file.originalname));
-  },
-});
-
-// File filter - only images
-const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  if (file.mimetype.startsWith('image/')) {
-    cb(null, true);
-  } else {
-    cb(new Error('Only image files are allowed'));
-  }
-};
+// Keep uploads in memory; routes pass them to the configured FileStorage
+// (src/storage) so nothing is written to the app directory. There is no
+// mimetype filter here: the client's claim is not trusted, and the content is
+// checked by magic bytes in services/receiptProcessing.ts.
+const storage = multer.memoryStorage();
 
 export const upload = multer({
   storage,
-  fileFilter,
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+    fileSize: MAX_FILE_SIZE,
+    files: MAX_FILES,
   },
 });
 
+// Turn multer's limit errors into JSON responses instead of letting them
+// reach the generic error handler
+export const handleUploadErrors = (handler: RequestHandler) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  handler(req, res, (error?: any) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        res.status(413).json({
+          message: `File is too large. The maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB`,
+          code: 'PAYLOAD_TOO_LARGE',
+          field: error.field,
+        });
+        return;
+      }
+      if (error.code === 'LIMIT_FILE_COUNT') {
+        res.status(413).json({
+          message: `Too many files. Upload at most ${MAX_FILES}`,
+          code: 'PAYLOAD_TOO_LARGE',
+        });
+        return;
+      }
+      res.status(400).json({ message: error.message, code: error.code, field: error.field });
+      return;
+    }
+
+    next(error);
+  });
+};
@@ -0,0 +1,38 @@
+import { Schema } from 'mongoose';
+import { CURRENCY_CODE_REGEX } from './Currency';
+
+export const MAX_AMOUNT_PRESETS = 10;
+
+// Amount limits for donations in one currency. Payment methods and donation
+// reasons each hold a list of these; a currency's own min/max/presets are
+// the global rule.
+export interface IAmountRule {
+  currency: string; // ISO 4217
+  min_amount?: number;
+  max_amount?: number;
+  presets?: number[]; // Suggested amounts clients show as buttons
+}
+
+export const AmountRuleSchema = new Schema<IAmountRule>(
+  {
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
+    },
+    min_amount: {
+      type: Number,
+      min: [0, 'Minimum amount cannot be negative'],
+    },
+    max_amount: {
+      type: Number,
+      min: [0, 'Maximum amount cannot be negative'],
+    },
+    presets: {
+      type: [Number],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ThrottleAction = 'login' | 'forgot_password' | 'reset_password';
+export type ThrottleScope = 'ip' | 'account';
+
+export interface IAuthThrottle extends Document {
+  key: string; // "<action>:<scope>:<identifier>"
+  action: ThrottleAction;
+  scope: ThrottleScope;
+  identifier: string; // IP address or normalized email
+  failures: number; // Failures in the current window
+  last_failure_at?: Date;
+  locked_until?: Date;
+  lock_count: number;
+  expires_at: Date; // Document is removed after this
+  created_at: Date;
+  updated_at: Date;
+}
+
+const AuthThrottleSchema = new Schema<IAuthThrottle>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    action: {
+      type: String,
+      enum: ['login', 'forgot_password', 'reset_password'],
+      required: true,
+    },
+    scope: {
+      type: String,
+      enum: ['ip', 'account'],
+      required: true,
+    },
+    identifier: {
+      type: String,
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    last_failure_at: {
+      type: Date,
+    },
+    locked_until: {
+      type: Date,
+      default: null,
+    },
+    lock_count: {
+      type: Number,
+      default: 0,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+AuthThrottleSchema.index({ locked_until: 1 });
+AuthThrottleSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthThrottle>('AuthThrottle', AuthThrottleSchema);
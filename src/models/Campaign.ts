@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_MILESTONES, isValidMilestoneList } from './Milestone';
+
+export type CampaignStatus = 'draft' | 'active' | 'paused' | 'ended' | 'archived';
+
+// draft: not public yet. active: accepting donations between start_date and
+// end_date. paused: public but not accepting donations. ended: closed, still
+// public. archived: hidden.
+export const CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'active', 'paused', 'ended', 'archived'];
+
+// Statuses shown on the public campaign endpoints
+export const PUBLIC_CAMPAIGN_STATUSES: CampaignStatus[] = ['active', 'paused', 'ended'];
+
+export interface ICampaign extends Document {
+  title: string;
+  slug: string; // URL name, e.g. "birthday-2025"
+  description?: string;
+  target_amount: number;
+  milestones: number[]; // Percentages of target_amount announced when reached
+  start_date: Date;
+  end_date?: Date; // Open-ended when unset
+  cover_image?: string; // Storage key, served by GET /api/campaigns/:slug/cover
+  status: CampaignStatus;
+  reason_id?: mongoose.Types.ObjectId; // Optional DonationReason the campaign is for
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CampaignSchema = new Schema<ICampaign>(
+  {
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [150, 'Title cannot exceed 150 characters'],
+    },
+    slug: {
+      type: String,
+      required: [true, 'Slug is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens'],
+      maxlength: [80, 'Slug cannot exceed 80 characters'],
+    },
+    description: {
+      type: String,
+      maxlength: [5000, 'Description cannot exceed 5000 characters'],
+    },
+    target_amount: {
+      type: Number,
+      required: [true, 'Target amount is required'],
+      min: [1, 'Target amount must be positive'],
+    },
+    milestones: {
+      type: [Number],
+      default: () => [...DEFAULT_MILESTONES],
+      validate: [isValidMilestoneList, 'Milestones must be whole percentages between 1 and 1000'],
+    },
+    start_date: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    end_date: {
+      type: Date,
+    },
+    cover_image: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: CAMPAIGN_STATUSES,
+      default: 'draft',
+    },
+    reason_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'DonationReason',
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+CampaignSchema.index({ status: 1, start_date: -1 });
+
+export default mongoose.model<ICampaign>('Campaign', CampaignSchema);
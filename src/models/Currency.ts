@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Donations created before currencies existed are in US dollars
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/; // ISO 4217
+
+// A currency donors may give in, with its own minimum donation amount
+export interface ICurrency extends Document {
+  code: string; // ISO 4217, e.g. "EUR"
+  name: string;
+  symbol?: string;
+  min_amount: number; // In this currency
+  max_amount?: number;
+  presets?: number[]; // Suggested amounts
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CurrencySchema = new Schema<ICurrency>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Currency code is required'],
+      unique: true,
+      uppercase: true,
+      trim: true,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    symbol: {
+      type: String,
+      trim: true,
+      maxlength: [10, 'Symbol cannot exceed 10 characters'],
+    },
+    min_amount: {
+      type: Number,
+      required: [true, 'Minimum amount is required'],
+      min: [0, 'Minimum amount cannot be negative'],
+    },
+    max_amount: {
+      type: Number,
+      min: [0, 'Maximum amount cannot be negative'],
+    },
+    presets: {
+      type: [Number],
+      default: undefined,
+    },
+    is_active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+CurrencySchema.index({ is_active: 1 });
+
+export default mongoose.model<ICurrency>('Currency', CurrencySchema);
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Preset reason an admin can pick when declining a donation. The message is
+// what the donor is shown.
+export interface IDeclineReason extends Document {
+  title: string;
+  message: string;
+  is_active: boolean;
+  order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const DeclineReasonSchema = new Schema<IDeclineReason>(
+  {
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    message: {
+      type: String,
+      required: [true, 'Message is required'],
+      trim: true,
+      maxlength: [500, 'Message cannot exceed 500 characters'],
+    },
+    is_active: {
+      type: Boolean,
+      default: true,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+DeclineReasonSchema.index({ is_active: 1, order: 1 });
+
+export default mongoose.model<IDeclineReason>('DeclineReason', DeclineReasonSchema);
@@ -1,23 +1,215 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_REGEX, DEFAULT_CURRENCY } from './Currency';
+import { PaymentFieldType, PAYMENT_FIELD_TYPES } from './PaymentMethod';
+
+export type DonationStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'refunded' | 'reversed';
+
+export const DONATION_STATUSES: DonationStatus[] = [
+  'pending',
+  'confirmed',
+  'completed',
+  'cancelled',
+  'refunded',
+  'reversed',
+];
+
+// Statuses where the money was received. Refunded and reversed donations
+// count towards totals with refunded_amount taken off.
+export const RECEIVED_STATUSES: DonationStatus[] = ['confirmed', 'completed', 'refunded', 'reversed'];
+
+// Aggregation expression for what a donation is worth after refunds
+export const NET_AMOUNT_EXPRESSION = {
+  $subtract: ['$amount', { $ifNull: ['$refunded_amount', 0] }],
+};
+
+export type RefundType = 'refund' | 'reversal';
+
+export const REFUND_TYPES: RefundType[] = ['refund', 'reversal'];
+
+export interface IDonationStatusChange {
+  from: DonationStatus;
+  to: DonationStatus;
+  actor?: mongoose.Types.ObjectId; // User who made the change
+  reason?: string;
+  changed_at: Date;
+}
+
+// Money returned to the donor (refund) or pulled back by their bank or
+// payment provider (reversal, e.g. a chargeback). May be partial.
+export interface IDonationRefund {
+  type: RefundType;
+  amount: number;
+  reason: string;
+  actor: mongoose.Types.ObjectId; // Admin who recorded it
+  created_at: Date;
+}
+
+// One field changed by the donor while the donation was pending. Payment
+// detail values are stored as saved on the donation, i.e. encrypted.
+export interface IDonationFieldChange {
+  field: string; // e.g. "amount" or "payment_details.wallet_address"
+  from?: any;
+  to?: any;
+  sensitive?: boolean; // Masked like the payment detail it belongs to
+}
+
+export interface IDonationEdit {
+  editor: mongoose.Types.ObjectId;
+  changes: IDonationFieldChange[];
+  edited_at: Date;
+}
+
+// A submitted value for one of the payment method's fields. The label and type
+// are copied from the field definition so the record still reads correctly if
+// an admin later edits the method. Values other than files are encrypted at
+// rest (see utils/fieldEncryption.ts).
+export interface IPaymentDetail {
+  label: string;
+  type: PaymentFieldType;
+  value: string | number;
+  sensitive?: boolean; // Masked in list responses
+}
 
 export interface IDonation extends Document {
   user_id: mongoose.Types.ObjectId;
   amount: number;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  currency: string; // ISO 4217; amount is in this currency
+  status: DonationStatus;
   payment_method_id?: mongoose.Types.ObjectId; // References PaymentMethod
   reason_id?: mongoose.Types.ObjectId; // References DonationReason
+  campaign_id?: mongoose.Types.ObjectId; // References Campaign
+  pledge_id?: mongoose.Types.ObjectId; // Pledge this donation was created from
+  pledge_due_at?: Date; // The pledge due date it covers
   message?: string;
   is_anonymous: boolean;
-  gift_card_code?: string; // For gift card payments
-  receipt_image?: string; // For receipt uploads
-  wallet_address?: string; // For crypto payments
-  paypal_email?: string; // For PayPal payments
+  payment_details?: Map<string, IPaymentDetail>; // Keyed by PaymentMethod field key
   created_at: Date;
   confirmed_at?: Date;
   completed_at?: Date;
   payment_reference?: string;
+  status_history: IDonationStatusChange[];
+  edit_history: IDonationEdit[];
+  refunds: IDonationRefund[];
+  refunded_amount: number; // Sum of refunds, so net amount = amount - refunded_amount
+  decline_reason?: string; // Shown to the donor when an admin cancels the donation
+  decline_reason_id?: mongoose.Types.ObjectId; // References DeclineReason when a preset was used
+  // Review queue lock: the admin working on this pending donation. The claim
+  // lapses at claim_expires_at so an abandoned review returns to the queue.
+  claimed_by?: mongoose.Types.ObjectId;
+  claimed_at?: Date;
+  claim_expires_at?: Date;
+  attachment_count?: number; // DonationAttachments, kept here so the cap can be checked atomically
 }
 
+const PaymentDetailSchema = new Schema<IPaymentDetail>(
+  {
+    label: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: PAYMENT_FIELD_TYPES,
+      required: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    sensitive: {
+      type: Boolean,
+    },
+  },
+  { _id: false }
+);
+
+const DonationStatusChangeSchema = new Schema<IDonationStatusChange>(
+  {
+    from: {
+      type: String,
+      enum: DONATION_STATUSES,
+      required: true,
+    },
+    to: {
+      type: String,
+      enum: DONATION_STATUSES,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reason: {
+      type: String,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    changed_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const DonationRefundSchema = new Schema<IDonationRefund>(
+  {
+    type: {
+      type: String,
+      enum: REFUND_TYPES,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0.01, 'Refund amount must be positive'],
+    },
+    reason: {
+      type: String,
+      required: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const DonationEditSchema = new Schema<IDonationEdit>(
+  {
+    editor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changes: {
+      type: [
+        new Schema<IDonationFieldChange>(
+          {
+            field: { type: String, required: true },
+            from: { type: Schema.Types.Mixed },
+            to: { type: Schema.Types.Mixed },
+            sensitive: { type: Boolean },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    edited_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const DonationSchema = new Schema<IDonation>(
   {
     user_id: {
@@ -29,11 +221,17 @@ const DonationSchema = new Schema<IDonation>(
     amount: {
       type: Number,
       required: [true, 'Amount is required'],
-      min: [500, 'Minimum donation amount is $500'],
+      min: [0.01, 'Amount must be positive'], // Per-currency minimums are checked on create
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      default: DEFAULT_CURRENCY,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
     },
     status: {
       type: String,
-      enum: ['pending', 'confirmed', 'completed', 'cancelled'],
+      enum: DONATION_STATUSES,
       default: 'pending',
       index: true,
     },
@@ -45,6 +243,17 @@ const DonationSchema = new Schema<IDonation>(
       type: Schema.Types.ObjectId,
       ref: 'DonationReason',
     },
+    campaign_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Campaign',
+    },
+    pledge_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pledge',
+    },
+    pledge_due_at: {
+      type: Date,
+    },
     message: {
       type: String,
       maxlength: [500, 'Message cannot exceed 500 characters'],
@@ -53,29 +262,56 @@ const DonationSchema = new Schema<IDonation>(
       type: Boolean,
       default: false,
     },
-    gift_card_code: {
-      type: String,
-      maxlength: [100, 'Gift card code cannot exceed 100 characters'],
+    payment_details: {
+      type: Map,
+      of: PaymentDetailSchema,
+      default: undefined,
     },
-    receipt_image: {
-      type: String, // URL to uploaded image
+    confirmed_at: {
+      type: Date,
     },
-    wallet_address: {
+    completed_at: {
+      type: Date,
+    },
+    payment_reference: {
       type: String,
-      maxlength: [500, 'Wallet address cannot exceed 500 characters'],
     },
-    paypal_email: {
+    status_history: {
+      type: [DonationStatusChangeSchema],
+      default: [],
+    },
+    edit_history: {
+      type: [DonationEditSchema],
+      default: [],
+    },
+    refunds: {
+      type: [DonationRefundSchema],
+      default: [],
+    },
+    refunded_amount: {
+      type: Number,
+      default: 0,
+    },
+    decline_reason: {
       type: String,
-      maxlength: [255, 'PayPal email cannot exceed 255 characters'],
+      maxlength: [500, 'Decline reason cannot exceed 500 characters'],
     },
-    confirmed_at: {
+    decline_reason_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'DeclineReason',
+    },
+    claimed_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    claimed_at: {
       type: Date,
     },
-    completed_at: {
+    claim_expires_at: {
       type: Date,
     },
-    payment_reference: {
-      type: String,
+    attachment_count: {
+      type: Number,
     },
   },
   {
@@ -87,6 +323,13 @@ const DonationSchema = new Schema<IDonation>(
 DonationSchema.index({ user_id: 1, created_at: -1 });
 DonationSchema.index({ status: 1, created_at: -1 });
 DonationSchema.index({ is_anonymous: 1 });
+DonationSchema.index({ campaign_id: 1, status: 1 });
+DonationSchema.index({ status: 1, claim_expires_at: 1, created_at: 1 }); // Review queue
+// One donation per pledge due date, even if the scheduler runs twice
+DonationSchema.index(
+  { pledge_id: 1, pledge_due_at: 1 },
+  { unique: true, partialFilterExpression: { pledge_id: { $exists: true } } }
+);
 
 export default mongoose.model<IDonation>('Donation', DonationSchema);
 
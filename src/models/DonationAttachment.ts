@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AttachmentReviewStatus = 'pending' | 'verified' | 'rejected';
+
+export const ATTACHMENT_REVIEW_STATUSES: AttachmentReviewStatus[] = ['pending', 'verified', 'rejected'];
+
+// Extra proof of payment added to a donation after it was created, such as
+// the back of a gift card or further transfer screenshots
+export interface IDonationAttachment extends Document {
+  donation_id: mongoose.Types.ObjectId;
+  user_id: mongoose.Types.ObjectId; // Uploader
+  storage_key: string; // Key in the configured FileStorage
+  original_name?: string;
+  content_type: string;
+  size: number;
+  description?: string;
+  review_status: AttachmentReviewStatus;
+  review_note?: string;
+  reviewed_by?: mongoose.Types.ObjectId;
+  reviewed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const DonationAttachmentSchema = new Schema<IDonationAttachment>(
+  {
+    donation_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Donation',
+      required: true,
+    },
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    storage_key: {
+      type: String,
+      required: true,
+    },
+    original_name: {
+      type: String,
+      trim: true,
+      maxlength: 255,
+    },
+    content_type: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    review_status: {
+      type: String,
+      enum: ATTACHMENT_REVIEW_STATUSES,
+      default: 'pending',
+    },
+    review_note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    reviewed_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewed_at: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+DonationAttachmentSchema.index({ donation_id: 1, created_at: 1 });
+
+export default mongoose.model<IDonationAttachment>('DonationAttachment', DonationAttachmentSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Internal note left by an admin on a donation. Never shown to the donor.
+export interface IDonationNote extends Document {
+  donation_id: mongoose.Types.ObjectId;
+  author_id: mongoose.Types.ObjectId;
+  note: string;
+  created_at: Date;
+}
+
+const DonationNoteSchema = new Schema<IDonationNote>(
+  {
+    donation_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Donation',
+      required: true,
+    },
+    author_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    note: {
+      type: String,
+      required: [true, 'Note is required'],
+      trim: true,
+      maxlength: [2000, 'Note cannot exceed 2000 characters'],
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+  }
+);
+
+// Indexes
+DonationNoteSchema.index({ donation_id: 1, created_at: 1 });
+
+export default mongoose.model<IDonationNote>('DonationNote', DonationNoteSchema);
@@ -1,8 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_MILESTONES, isValidMilestoneList } from './Milestone';
+import { AmountRuleSchema, IAmountRule } from './AmountRule';
 
 export interface IDonationReason extends Document {
   title: string;
   description?: string;
+  target_amount?: number; // Optional goal; milestones are only tracked with one
+  milestones: number[]; // Percentages of target_amount announced when reached
+  amount_rules: IAmountRule[]; // Per-currency donation limits for this reason
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -20,6 +25,19 @@ const DonationReasonSchema = new Schema<IDonationReason>(
       type: String,
       maxlength: [500, 'Description cannot exceed 500 characters'],
     },
+    target_amount: {
+      type: Number,
+      min: [1, 'Target amount must be positive'],
+    },
+    milestones: {
+      type: [Number],
+      default: () => [...DEFAULT_MILESTONES],
+      validate: [isValidMilestoneList, 'Milestones must be whole percentages between 1 and 1000'],
+    },
+    amount_rules: {
+      type: [AmountRuleSchema],
+      default: [],
+    },
     is_active: {
       type: Boolean,
       default: true,
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EmailJobStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface IEmailJob extends Document {
+  to: string;
+  template: string; // Template name, rendered when the job is sent
+  data: string; // Encrypted JSON of the template data, it may hold reset or verification links
+  status: EmailJobStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  locked_at?: Date; // When a worker claimed the job
+  last_error?: string;
+  sent_at?: Date;
+  expires_at?: Date; // Set once the job is sent or failed; purged by TTL index
+  created_at: Date;
+  updated_at: Date;
+}
+
+const EmailJobSchema = new Schema<IEmailJob>(
+  {
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    template: {
+      type: String,
+      required: true,
+    },
+    data: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    next_attempt_at: {
+      type: Date,
+      default: Date.now,
+    },
+    locked_at: {
+      type: Date,
+    },
+    last_error: {
+      type: String,
+    },
+    sent_at: {
+      type: Date,
+    },
+    expires_at: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+EmailJobSchema.index({ status: 1, next_attempt_at: 1 });
+EmailJobSchema.index({ created_at: -1 });
+EmailJobSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IEmailJob>('EmailJob', EmailJobSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_REGEX } from './Currency';
+
+export type ExchangeRateSource = 'admin' | 'import';
+
+// How much one unit of `currency` is worth in `base_currency` from
+// `effective_at` until the next rate for the pair takes over
+export interface IExchangeRate extends Document {
+  currency: string;
+  base_currency: string; // The reporting currency the rate converts into
+  rate: number;
+  effective_at: Date;
+  source: ExchangeRateSource;
+  created_by?: mongoose.Types.ObjectId; // Admin who entered it
+  created_at: Date;
+}
+
+const ExchangeRateSchema = new Schema<IExchangeRate>(
+  {
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
+    },
+    base_currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0, 'Rate must be positive'],
+    },
+    effective_at: {
+      type: Date,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['admin', 'import'],
+      default: 'admin',
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+  }
+);
+
+// Indexes
+// One rate per pair and moment; imports upsert on it
+ExchangeRateSchema.index({ base_currency: 1, currency: 1, effective_at: -1 }, { unique: true });
+
+export default mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A client-supplied Idempotency-Key and the response it produced, so a
+// retried request can be answered without repeating the work.
+export interface IIdempotencyKey extends Document {
+  user_id: mongoose.Types.ObjectId;
+  scope: string; // Operation the key was used for, e.g. "donation:create:http"
+  key: string;
+  request_hash: string; // SHA-256 of the normalized request payload
+  status: 'processing' | 'completed';
+  response_status?: number;
+  response_body?: any;
+  locked_at: Date; // When processing started; stale locks can be taken over
+  expires_at: Date; // Document is removed after this
+  created_at: Date;
+  updated_at: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    request_hash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    response_status: {
+      type: Number,
+    },
+    response_body: {
+      type: Schema.Types.Mixed,
+    },
+    locked_at: {
+      type: Date,
+      required: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+IdempotencyKeySchema.index({ user_id: 1, scope: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
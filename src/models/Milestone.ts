@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type MilestoneSubject = 'campaign' | 'reason';
+
+// Percentages of the goal celebrated when a campaign or reason doesn't set its own
+export const DEFAULT_MILESTONES = [25, 50, 75, 100];
+
+export const MAX_MILESTONE_PERCENT = 1000;
+
+// Whole percentages of the goal, 1-1000 (a goal can be beaten)
+export const isValidMilestoneList = (milestones: number[]): boolean =>
+  milestones.every((p) => Number.isInteger(p) && p >= 1 && p <= MAX_MILESTONE_PERCENT);
+
+// A milestone that has been reached. The unique index makes each one fire once.
+export interface IMilestone extends Document {
+  subject_type: MilestoneSubject;
+  subject_id: mongoose.Types.ObjectId; // Campaign or DonationReason
+  percent: number;
+  target_amount: number;
+  raised: number; // Net amount received when the milestone was reached
+  donation_id?: mongoose.Types.ObjectId; // Donation whose confirmation crossed it
+  reached_at: Date;
+}
+
+const MilestoneSchema = new Schema<IMilestone>({
+  subject_type: {
+    type: String,
+    enum: ['campaign', 'reason'],
+    required: true,
+  },
+  subject_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  percent: {
+    type: Number,
+    required: true,
+  },
+  target_amount: {
+    type: Number,
+    required: true,
+  },
+  raised: {
+    type: Number,
+    required: true,
+  },
+  donation_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Donation',
+  },
+  reached_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Indexes
+MilestoneSchema.index({ subject_type: 1, subject_id: 1, percent: 1 }, { unique: true });
+
+export default mongoose.model<IMilestone>('Milestone', MilestoneSchema);
@@ -1,17 +1,32 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { AmountRuleSchema, IAmountRule } from './AmountRule';
+
+export type PaymentFieldType = 'text' | 'email' | 'file' | 'number' | 'select';
+
+export const PAYMENT_FIELD_TYPES: PaymentFieldType[] = ['text', 'email', 'file', 'number', 'select'];
+
+// One input the donor fills in when paying with this method
+export interface IPaymentMethodField {
+  key: string; // Key in Donation.payment_details, e.g. "gift_card_code"
+  label: string;
+  type: PaymentFieldType;
+  required: boolean;
+  pattern?: string; // Regex source the value must match
+  max_length?: number;
+  options?: string[]; // Choices for select fields
+  sensitive?: boolean; // Masked in list responses, e.g. gift card codes
+}
 
 export interface IPaymentMethod extends Document {
   name: string;
   type: 'gift_card' | 'bitcoin' | 'paypal' | 'other';
   label: string; // Custom label for input field
-  requires_code: boolean; // Whether this method requires a code (gift card)
-  requires_receipt: boolean; // Whether this method requires receipt photo
-  requires_address: boolean; // Whether this method requires wallet address (bitcoin)
-  requires_email: boolean; // Whether this method requires email (paypal)
+  fields: IPaymentMethodField[]; // Form schema for donations using this method
+  amount_rules: IAmountRule[]; // Per-currency limits on top of the currency's own
   icon?: string; // Icon name or URL
   description?: string; // Method description
   caution_note?: string; // Admin's caution note for users
-  receiving_account?: string; // Receiving account number/address (BTC wallet, PayPal email, etc.)
+  receiving_account?: string; // Receiving account number/address (BTC wallet, PayPal email, etc.), encrypted at rest
   has_display_text?: boolean; // Whether to show display_text to users
   display_label?: string; // Label for the display text field
   display_text?: string; // Text to display to users (read-only, with copy button)
@@ -21,6 +36,50 @@ export interface IPaymentMethod extends Document {
   updated_at: Date;
 }
 
+const PaymentMethodFieldSchema = new Schema<IPaymentMethodField>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Field key is required'],
+      trim: true,
+      match: [/^[a-z][a-z0-9_]*$/, 'Field key must be lowercase letters, digits and underscores'],
+      maxlength: [50, 'Field key cannot exceed 50 characters'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Field label is required'],
+      trim: true,
+      maxlength: [100, 'Field label cannot exceed 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: PAYMENT_FIELD_TYPES,
+      required: [true, 'Field type is required'],
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    pattern: {
+      type: String,
+      maxlength: [500, 'Field pattern cannot exceed 500 characters'],
+    },
+    max_length: {
+      type: Number,
+      min: [1, 'Field max length must be at least 1'],
+    },
+    options: {
+      type: [String],
+      default: undefined,
+    },
+    sensitive: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
 const PaymentMethodSchema = new Schema<IPaymentMethod>(
   {
     name: {
@@ -40,21 +99,13 @@ const PaymentMethodSchema = new Schema<IPaymentMethod>(
       trim: true,
       maxlength: [100, 'Label cannot exceed 100 characters'],
     },
-    requires_code: {
-      type: Boolean,
-      default: false,
+    fields: {
+      type: [PaymentMethodFieldSchema],
+      default: [],
     },
-    requires_receipt: {
-      type: Boolean,
-      default: false,
-    },
-    requires_address: {
-      type: Boolean,
-      default: false,
-    },
-    requires_email: {
-      type: Boolean,
-      default: false,
+    amount_rules: {
+      type: [AmountRuleSchema],
+      default: [],
     },
     icon: {
       type: String,
@@ -67,9 +118,10 @@ const PaymentMethodSchema = new Schema<IPaymentMethod>(
       type: String,
       maxlength: [1000, 'Caution note cannot exceed 1000 characters'],
     },
+    // Stored encrypted, so the 500 character limit is enforced on input in
+    // the admin routes rather than here
     receiving_account: {
       type: String,
-      maxlength: [500, 'Receiving account cannot exceed 500 characters'],
     },
     has_display_text: {
       type: Boolean,
@@ -0,0 +1,135 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CODE_REGEX, DEFAULT_CURRENCY } from './Currency';
+
+export type PledgeCadence = 'weekly' | 'monthly';
+
+export const PLEDGE_CADENCES: PledgeCadence[] = ['weekly', 'monthly'];
+
+// active: a pending donation is created every time it falls due. paused:
+// skipped until resumed. cancelled: final.
+export type PledgeStatus = 'active' | 'paused' | 'cancelled';
+
+export const PLEDGE_STATUSES: PledgeStatus[] = ['active', 'paused', 'cancelled'];
+
+// A recurring donation. The pledge scheduler turns each due date into a
+// pending Donation the donor then completes with their payment details.
+export interface IPledge extends Document {
+  user_id: mongoose.Types.ObjectId;
+  amount: number;
+  currency: string; // ISO 4217
+  cadence: PledgeCadence;
+  anchor_day: number; // Day of the month monthly pledges fall due (clamped in short months)
+  next_due_at: Date;
+  payment_method_id?: mongoose.Types.ObjectId;
+  reason_id?: mongoose.Types.ObjectId;
+  campaign_id?: mongoose.Types.ObjectId; // Dropped from new donations once the campaign stops accepting them
+  message?: string;
+  is_anonymous: boolean;
+  status: PledgeStatus;
+  donations_created: number;
+  last_donation_id?: mongoose.Types.ObjectId;
+  last_run_at?: Date;
+  locked_at?: Date; // Set while the scheduler is creating a donation
+  paused_at?: Date;
+  failure_reason?: string; // Why the scheduler last paused it, cleared on resume
+  failed_at?: Date;
+  cancelled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PledgeSchema = new Schema<IPledge>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'], // Per-currency minimums are checked on create
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      default: DEFAULT_CURRENCY,
+      match: [CURRENCY_CODE_REGEX, 'Currency code must be a 3-letter ISO 4217 code'],
+    },
+    cadence: {
+      type: String,
+      enum: PLEDGE_CADENCES,
+      required: [true, 'Cadence is required'],
+    },
+    anchor_day: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 31,
+    },
+    next_due_at: {
+      type: Date,
+      required: true,
+    },
+    payment_method_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'PaymentMethod',
+    },
+    reason_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'DonationReason',
+    },
+    campaign_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Campaign',
+    },
+    message: {
+      type: String,
+      maxlength: [500, 'Message cannot exceed 500 characters'],
+    },
+    is_anonymous: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: PLEDGE_STATUSES,
+      default: 'active',
+    },
+    donations_created: {
+      type: Number,
+      default: 0,
+    },
+    last_donation_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Donation',
+    },
+    last_run_at: {
+      type: Date,
+    },
+    locked_at: {
+      type: Date,
+    },
+    paused_at: {
+      type: Date,
+    },
+    failure_reason: {
+      type: String,
+    },
+    failed_at: {
+      type: Date,
+    },
+    cancelled_at: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes
+PledgeSchema.index({ user_id: 1, created_at: -1 });
+PledgeSchema.index({ status: 1, next_due_at: 1 }); // Scheduler
+
+export default mongoose.model<IPledge>('Pledge', PledgeSchema);
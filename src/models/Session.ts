@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISession extends Document {
+  user_id: mongoose.Types.ObjectId;
+  refresh_token_hash: string; // SHA-256 of the current refresh token secret
+  user_agent?: string;
+  ip_address?: string;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  created_at: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    refresh_token_hash: {
+      type: String,
+      required: true,
+      select: false, // Don't return token hash by default
+    },
+    user_agent: {
+      type: String,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+    },
+    ip_address: {
+      type: String,
+    },
+    last_used_at: {
+      type: Date,
+      default: Date.now,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    revoked_at: {
+      type: Date,
+      default: null,
+    },
+    revoked_reason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+  }
+);
+
+// Indexes
+SessionSchema.index({ user_id: 1, revoked_at: 1 });
+// Remove sessions once the refresh token can no longer be used
+SessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
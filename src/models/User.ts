@@ -1,15 +1,22 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { Role, ROLES } from '../config/permissions';
 
 export interface IUser extends Document {
   email: string;
   password: string;
   full_name: string;
   avatar_url?: string;
-  role: 'user' | 'admin';
+  role: Role;
   is_verified: boolean;
   reset_password_token?: string;
   reset_password_expires?: Date;
+  email_verification_token?: string;
+  email_verification_expires?: Date;
+  two_factor_enabled: boolean;
+  two_factor_secret?: string; // Base32 TOTP secret, set at enrollment
+  two_factor_recovery_codes?: string[]; // SHA-256 hashes of unused recovery codes
+  two_factor_last_step?: number; // Last accepted TOTP time step, blocks code replay
   created_at: Date;
   updated_at: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -42,7 +49,7 @@ const UserSchema = new Schema<IUser>(
     },
     role: {
       type: String,
-      enum: ['user', 'admin'],
+      enum: ROLES,
       default: 'user',
     },
     is_verified: {
@@ -57,6 +64,33 @@ const UserSchema = new Schema<IUser>(
       type: Date,
       default: null,
     },
+    email_verification_token: {
+      type: String,
+      default: null,
+    },
+    email_verification_expires: {
+      type: Date,
+      default: null,
+    },
+    two_factor_enabled: {
+      type: Boolean,
+      default: false,
+    },
+    two_factor_secret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    two_factor_recovery_codes: {
+      type: [String],
+      default: undefined,
+      select: false,
+    },
+    two_factor_last_step: {
+      type: Number,
+      default: null,
+      select: false,
+    },
   },
   {
     timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
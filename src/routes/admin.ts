@@ -1,31 +1,102 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import Donation from '../models/Donation';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import Donation, { DONATION_STATUSES, RECEIVED_STATUSES, REFUND_TYPES } from '../models/Donation';
 import User from '../models/User';
 import ActivityLog from '../models/ActivityLog';
 import DonationReason from '../models/DonationReason';
 import CommunicationMethod from '../models/CommunicationMethod';
 import PaymentMethod from '../models/PaymentMethod';
-import { authenticate, AuthRequest, isAdmin } from '../middleware/auth';
+import DeclineReason from '../models/DeclineReason';
+import Campaign, { CAMPAIGN_STATUSES } from '../models/Campaign';
+import Currency, { CURRENCY_CODE_REGEX, DEFAULT_CURRENCY } from '../models/Currency';
+import ExchangeRate from '../models/ExchangeRate';
+import Pledge from '../models/Pledge';
+import {
+  authenticate,
+  AuthRequest,
+  isAdmin,
+  requireAdminTwoFactor,
+  requirePermission,
+} from '../middleware/auth';
+import { handleUploadErrors, upload } from '../middleware/upload';
+import {
+  bulkChangeDonationStatus,
+  changeDonationStatus,
+  listDonations,
+  refundDonation,
+  resolveDeclineReason,
+} from '../services/donationService';
+import {
+  normalizeFieldDefinitions,
+  presentEditHistory,
+  loadSensitiveKeys,
+  presentPaymentDetails,
+  validateFieldDefinitions,
+} from '../services/paymentFields';
+import { serializeWithAttachmentUrls } from '../services/receiptStorage';
+import { normalizeAmountRules, validateAmountRules, validateCurrencyLimits } from '../services/amountLimits';
+import {
+  listAttachmentsForDonations,
+  reviewAttachment,
+  serializeAttachment,
+} from '../services/attachmentService';
+import {
+  getPermissions,
+  hasPermission,
+  isPrivilegedRole,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  ROLES,
+} from '../config/permissions';
+import { clearLock, listActiveLocks } from '../services/throttleService';
+import {
+  CampaignProgress,
+  deleteCampaignCover,
+  formatCampaign,
+  getCampaignProgress,
+  getCampaignsProgress,
+  hasCampaignDonations,
+  saveCampaignCover,
+  slugify,
+} from '../services/campaignService';
+import { parseMilestones } from '../services/milestoneService';
+import { getReportingCurrency, inReportingCurrency, reportingAmountStages } from '../services/currencyService';
+import {
+  addReviewNote,
+  claimDonation,
+  claimNextDonation,
+  decideDonation,
+  getQueueOverview,
+  listReviewNotes,
+  releaseClaim,
+} from '../services/reviewQueue';
+import { isHttpError } from '../utils/errors';
+import { decryptOptionalField, encryptField } from '../utils/fieldEncryption';
 
 const router = express.Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication and a staff role; each route then
+// checks its own permission
 router.use(authenticate);
 router.use(isAdmin);
+router.use(requireAdminTwoFactor);
 
 // @route   GET /api/admin/stats
 // @desc    Get comprehensive admin statistics
-// @access  Private (Admin)
-router.get('/stats', async (req: express.Request, res: Response) => {
+// @access  Private (stats:read)
+router.get('/stats', requirePermission('stats:read'), async (req: express.Request, res: Response) => {
   try {
-    // Donation statistics
+    // Donation statistics, in the reporting currency
     const donationStats = await Donation.aggregate([
+      ...reportingAmountStages(),
       {
         $group: {
           _id: '$status',
           count: { $sum: 1 },
-          total_amount: { $sum: '$amount' },
+          total_amount: { $sum: inReportingCurrency('$amount') },
+          refunded_amount: { $sum: inReportingCurrency('$refunded_amount') },
+          net_amount: { $sum: '$reporting_amount' },
         },
       },
     ]);
@@ -47,20 +118,22 @@ router.get('/stats', async (req: express.Request, res: Response) => {
       .limit(50)
       .lean();
 
-    // Monthly donation trends
+    // Monthly donation trends, net of refunds and reversals
     const monthlyTrends = await Donation.aggregate([
       {
         $match: {
-          status: { $in: ['confirmed', 'completed'] },
+          status: { $in: RECEIVED_STATUSES },
         },
       },
+      ...reportingAmountStages(),
       {
         $group: {
           _id: {
             year: { $year: '$created_at' },
             month: { $month: '$created_at' },
           },
-          total_amount: { $sum: '$amount' },
+          total_amount: { $sum: '$reporting_amount' },
+          refunded_amount: { $sum: inReportingCurrency('$refunded_amount') },
           count: { $sum: 1 },
         },
       },
@@ -73,6 +146,7 @@ router.get('/stats', async (req: express.Request, res: Response) => {
     ]);
 
     res.json({
+      currency: getReportingCurrency(),
       donations: donationStats,
       users: userStats,
       recent_activity: recentActivity,
@@ -85,22 +159,27 @@ router.get('/stats', async (req: express.Request, res: Response) => {
 });
 
 // @route   GET /api/admin/users
-// @desc    Get all users with pagination
-// @access  Private (Admin)
-router.get('/users', async (req: express.Request, res: Response) => {
+// @desc    Get all users with pagination (optionally filtered by role)
+// @access  Private (users:read)
+router.get('/users', requirePermission('users:read'), async (req: express.Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const skip = (page - 1) * limit;
 
-    const users = await User.find()
+    const query: any = {};
+    if (req.query.role) {
+      query.role = req.query.role;
+    }
+
+    const users = await User.find(query)
       .select('-password')
       .sort({ created_at: -1 })
       .skip(skip)
       .limit(limit)
       .lean();
 
-    const total = await User.countDocuments();
+    const total = await User.countDocuments(query);
 
     res.json({
       users: users.map((user) => ({
@@ -127,52 +206,62 @@ router.get('/users', async (req: express.Request, res: Response) => {
 
 // @route   GET /api/admin/donations
 // @desc    Get all donations with filters
-// @access  Private (Admin)
-router.get('/donations', async (req: express.Request, res: Response) => {
+// @access  Private (donations:read)
+router.get('/donations', requirePermission('donations:read'), async (req: express.Request, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
     const { status, user_id } = req.query;
 
-    const query: any = {};
-    if (status) query.status = status;
-    if (user_id) query.user_id = user_id;
-
-    const donations = await Donation.find(query)
-      .populate('user_id', 'full_name email')
-      .populate('reason_id', 'title')
-      .sort({ created_at: -1 })
-      .skip(skip)
-      .limit(limit)
-      .lean();
+    const { donations, pagination } = await listDonations({
+      status: status as string | undefined,
+      user_id: user_id as string | undefined,
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      populate: [
+        { path: 'user_id', select: 'full_name email' },
+        { path: 'reason_id', select: 'title' },
+        { path: 'claimed_by', select: 'full_name email' },
+      ],
+    });
 
-    const total = await Donation.countDocuments(query);
+    const [attachments, sensitiveKeys] = await Promise.all([
+      listAttachmentsForDonations(donations.map((d) => d._id)),
+      loadSensitiveKeys(donations.map((d) => d.payment_method_id)),
+    ]);
 
     res.json({
       donations: donations.map((donation) => ({
         id: donation._id.toString(),
         user_id: donation.user_id,
         amount: donation.amount,
+        currency: donation.currency || DEFAULT_CURRENCY,
         status: donation.status,
         payment_method_id: donation.payment_method_id,
         reason_id: donation.reason_id,
+        campaign_id: donation.campaign_id?.toString(),
+        pledge_id: donation.pledge_id?.toString(),
         message: donation.message,
         is_anonymous: donation.is_anonymous,
-        gift_card_code: donation.gift_card_code,
-        receipt_image: donation.receipt_image,
-        wallet_address: donation.wallet_address,
-        paypal_email: donation.paypal_email,
+        payment_details: serializeWithAttachmentUrls(
+          donation._id.toString(),
+          donation.payment_details,
+          sensitiveKeys.get(String(donation.payment_method_id))
+        ),
         created_at: donation.created_at.toISOString(),
         confirmed_at: donation.confirmed_at?.toISOString(),
         completed_at: donation.completed_at?.toISOString(),
+        status_history: donation.status_history,
+        edit_history: presentEditHistory(donation.edit_history, {
+          sensitiveKeys: sensitiveKeys.get(String(donation.payment_method_id)),
+        }),
+        refunded_amount: donation.refunded_amount || 0,
+        refunds: donation.refunds || [],
+        decline_reason: donation.decline_reason,
+        decline_reason_id: donation.decline_reason_id?.toString(),
+        claimed_by: donation.claimed_by,
+        claim_expires_at: donation.claim_expires_at?.toISOString(),
+        attachments: attachments.get(donation._id.toString()) || [],
       })),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error: any) {
     console.error('Get admin donations error:', error);
@@ -180,11 +269,26 @@ router.get('/donations', async (req: express.Request, res: Response) => {
   }
 });
 
+// Admin and superadmin accounts can only be created, changed or deleted with
+// `admins:manage`. Sends the 403 and returns true when that is missing.
+const denyPrivilegedRoleChange = (req: AuthRequest, res: Response, roles: (string | undefined)[]): boolean => {
+  if (!roles.some(isPrivilegedRole) || hasPermission(req.user!.role, 'admins:manage')) {
+    return false;
+  }
+  res.status(403).json({
+    message: 'Only a superadmin can manage admin accounts',
+    code: 'PERMISSION_DENIED',
+    missing_permissions: ['admins:manage'],
+  });
+  return true;
+};
+
 // @route   POST /api/admin/users
 // @desc    Create a new admin user
-// @access  Private (Admin)
+// @access  Private (users:write, roles:manage; admins:manage for admin roles)
 router.post(
   '/users',
+  requirePermission('users:write', 'roles:manage'),
   [
     body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
     body('password')
@@ -198,7 +302,7 @@ router.post(
       .withMessage('Full name must be at least 2 characters'),
     body('role')
       .optional()
-      .isIn(['user', 'admin'])
+      .isIn(ROLES)
       .withMessage('Invalid role'),
   ],
   async (req: AuthRequest, res: Response) => {
@@ -208,117 +312,1326 @@ router.post(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { email, password, full_name, role } = req.body;
-
-      // Check if user already exists
-      const existingUser = await User.findOne({ email: email.toLowerCase() });
-      if (existingUser) {
-        return res.status(400).json({ message: 'User with this email already exists' });
+      const { email, password, full_name, role } = req.body;
+      if (denyPrivilegedRoleChange(req, res, [role || 'admin'])) {
+        return;
+      }
+
+      // Check if user already exists
+      const existingUser = await User.findOne({ email: email.toLowerCase() });
+      if (existingUser) {
+        return res.status(400).json({ message: 'User with this email already exists' });
+      }
+
+      // Create new user (default to admin if role not specified)
+      const user = await User.create({
+        email: email.toLowerCase(),
+        password,
+        full_name,
+        role: role || 'admin',
+        is_verified: true,
+      });
+
+      res.status(201).json({
+        id: user._id.toString(),
+        email: user.email,
+        full_name: user.full_name,
+        avatar_url: user.avatar_url,
+        role: user.role,
+        created_at: user.created_at.toISOString(),
+        updated_at: user.updated_at.toISOString(),
+      });
+    } catch (error: any) {
+      console.error('Create admin user error:', error);
+      if (error.code === 11000) {
+        return res.status(400).json({ message: 'User with this email already exists' });
+      }
+      res.status(500).json({ message: 'Server error creating admin user' });
+    }
+  }
+);
+
+// @route   GET /api/admin/roles
+// @desc    List roles with their permissions and how many users hold each
+// @access  Private (roles:manage)
+router.get('/roles', requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const counts = await User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }]);
+    const countByRole = new Map(counts.map((c) => [c._id, c.count]));
+
+    res.json({
+      roles: ROLES.map((role) => ({
+        role,
+        permissions: ROLE_PERMISSIONS[role],
+        user_count: countByRole.get(role) || 0,
+      })),
+      permissions: PERMISSIONS,
+    });
+  } catch (error: any) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ message: 'Server error fetching roles' });
+  }
+});
+
+// @route   PATCH /api/admin/users/:id/role
+// @desc    Assign a role to a user
+// @access  Private (roles:manage; admins:manage to or from admin roles)
+router.patch(
+  '/users/:id/role',
+  requirePermission('roles:manage'),
+  [body('role').isIn(ROLES).withMessage('Invalid role')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { role } = req.body;
+
+      // Changing your own role could lock everyone out of role management
+      if (req.params.id === req.user!._id.toString()) {
+        return res.status(400).json({ message: 'You cannot change your own role' });
+      }
+
+      const user = await User.findById(req.params.id).select('-password');
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (denyPrivilegedRoleChange(req, res, [user.role, role])) {
+        return;
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await user.save();
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'UPDATE_USER_ROLE',
+        resource_type: 'user',
+        resource_id: user._id,
+        details: { from: previousRole, to: role },
+        ip_address: req.ip,
+      });
+
+      res.json({
+        id: user._id.toString(),
+        email: user.email,
+        full_name: user.full_name,
+        avatar_url: user.avatar_url,
+        role: user.role,
+        permissions: getPermissions(user.role),
+        created_at: user.created_at.toISOString(),
+        updated_at: user.updated_at.toISOString(),
+      });
+    } catch (error: any) {
+      console.error('Update user role error:', error);
+      res.status(500).json({ message: 'Server error updating user role' });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/users/:id
+// @desc    Delete a user
+// @access  Private (users:delete; admins:manage for admin roles)
+router.delete('/users/:id', requirePermission('users:delete'), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.params.id;
+
+    // Prevent deleting yourself
+    if (userId === req.user!._id.toString()) {
+      return res.status(400).json({ message: 'You cannot delete your own account' });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (denyPrivilegedRoleChange(req, res, [user.role])) {
+      return;
+    }
+
+    await User.findByIdAndDelete(userId);
+
+    res.json({ message: 'User deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete user error:', error);
+    res.status(500).json({ message: 'Server error deleting user' });
+  }
+});
+
+// @route   PATCH /api/admin/donations/bulk-status
+// @desc    Bulk update donation status (accept all pending or decline all pending)
+// @access  Private (donations:review)
+// NOTE: This route must come BEFORE /donations/:id/status to avoid route conflicts
+router.patch(
+  '/donations/bulk-status',
+  requirePermission('donations:review'),
+  [
+    body('status')
+      .isIn(['confirmed', 'cancelled'])
+      .withMessage('Invalid status. Must be confirmed or cancelled'),
+    body('filter_status')
+      .optional()
+      .isIn(DONATION_STATUSES)
+      .withMessage('Invalid filter status'),
+    body('reason')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+    body('decline_reason_id')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid decline reason'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { status, filter_status, reason, decline_reason_id } = req.body;
+      
+      // Build query - default to pending if no filter_status provided
+      const query: any = { status: filter_status || 'pending' };
+
+      // Declines carry a reason the donors will see
+      const decline = status === 'cancelled'
+        ? await resolveDeclineReason(decline_reason_id, reason)
+        : undefined;
+
+      // Update all matching donations that can legally make the transition
+      const result = await bulkChangeDonationStatus(query, status, {
+        actor: req.user!._id,
+        reason: decline ? decline.message : reason,
+        decline,
+      });
+      
+      res.json({
+        message: `Successfully updated ${result.modifiedCount} donation(s)`,
+        modifiedCount: result.modifiedCount,
+        matchedCount: result.matchedCount,
+        skippedCount: result.skipped.length,
+        skipped: result.skipped,
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Bulk update donation status error:', error);
+      res.status(500).json({ message: 'Server error bulk updating donation status' });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/donations/:id/status
+// @desc    Update donation status (approve/decline)
+// @access  Private (donations:review)
+router.patch(
+  '/donations/:id/status',
+  requirePermission('donations:review'),
+  [
+    body('status')
+      .isIn(DONATION_STATUSES)
+      .withMessage('Invalid status'),
+    body('reason')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+    body('decline_reason_id')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid decline reason'),
+    body('note')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Note cannot exceed 2000 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { status, reason, decline_reason_id, note } = req.body;
+      const decline = status === 'cancelled'
+        ? await resolveDeclineReason(decline_reason_id, reason)
+        : undefined;
+
+      const donation = await changeDonationStatus(req.params.id, status, {
+        actor: req.user!._id,
+        reason: decline ? decline.message : reason,
+        decline,
+      });
+
+      // Internal context for other admins; never sent to the donor
+      if (note) {
+        await addReviewNote(donation._id, req.user!._id, note);
+      }
+
+      const populatedDonation = await Donation.findById(donation._id)
+        .populate('user_id', 'full_name email')
+        .populate('reason_id', 'title')
+        .lean();
+
+      res.json({
+        id: populatedDonation?._id.toString(),
+        user_id: populatedDonation?.user_id,
+        amount: populatedDonation?.amount,
+        status: populatedDonation?.status,
+        reason_id: populatedDonation?.reason_id,
+        confirmed_at: populatedDonation?.confirmed_at?.toISOString(),
+        completed_at: populatedDonation?.completed_at?.toISOString(),
+        created_at: populatedDonation?.created_at.toISOString(),
+        status_history: populatedDonation?.status_history,
+        decline_reason: populatedDonation?.decline_reason,
+        decline_reason_id: populatedDonation?.decline_reason_id?.toString(),
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Update donation status error:', error);
+      res.status(500).json({ message: 'Server error updating donation status' });
+    }
+  }
+);
+
+// @route   POST /api/admin/donations/:id/refunds
+// @desc    Record a full or partial refund or reversal (chargeback) of a received donation
+// @access  Private (donations:refund)
+router.post(
+  '/donations/:id/refunds',
+  requirePermission('donations:refund'),
+  [
+    body('type')
+      .isIn(REFUND_TYPES)
+      .withMessage('Type must be refund or reversal'),
+    body('amount')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Amount must be a positive number'),
+    body('reason')
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Reason must be between 3 and 500 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { type, amount, reason } = req.body;
+      const donation = await refundDonation(req.params.id, {
+        type,
+        amount: amount !== undefined ? Number(amount) : undefined,
+        reason,
+        actor: req.user!._id,
+      });
+      const refund = donation.refunds[donation.refunds.length - 1];
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: type === 'refund' ? 'REFUND_DONATION' : 'REVERSE_DONATION',
+        resource_type: 'donation',
+        resource_id: donation._id,
+        details: { amount: refund.amount, reason },
+        ip_address: req.ip,
+        user_agent: req.get('user-agent'),
+      });
+
+      res.status(201).json({
+        id: donation._id.toString(),
+        status: donation.status,
+        amount: donation.amount,
+        currency: donation.currency,
+        refunded_amount: donation.refunded_amount,
+        net_amount: donation.amount - donation.refunded_amount,
+        refunds: donation.refunds.map((r) => ({
+          type: r.type,
+          amount: r.amount,
+          reason: r.reason,
+          actor: r.actor.toString(),
+          created_at: r.created_at.toISOString(),
+        })),
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Record refund error:', error);
+      res.status(500).json({ message: 'Server error recording refund' });
+    }
+  }
+);
+
+// @route   POST /api/admin/donations/:id/reveal
+// @desc    Show a donation's payment details unmasked (recorded in the activity log)
+// @access  Private (donations:reveal)
+router.post(
+  '/donations/:id/reveal',
+  requirePermission('donations:reveal'),
+  [
+    body('reason')
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Please give a reason (3-500 characters) for revealing payment details'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ message: 'Donation not found' });
+      }
+
+      const donation = await Donation.findById(req.params.id).select('payment_details').lean();
+      if (!donation) {
+        return res.status(404).json({ message: 'Donation not found' });
+      }
+
+      const paymentDetails = presentPaymentDetails(donation.payment_details, { reveal: true });
+      const revealedFields = Object.entries(paymentDetails)
+        .filter(([, detail]) => detail.sensitive)
+        .map(([key]) => key);
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'REVEAL_PAYMENT_DETAILS',
+        resource_type: 'donation',
+        resource_id: donation._id,
+        details: { fields: revealedFields, reason: req.body.reason },
+        ip_address: req.ip,
+        user_agent: req.get('user-agent'),
+      });
+
+      res.json({ id: donation._id.toString(), payment_details: paymentDetails });
+    } catch (error: any) {
+      console.error('Reveal payment details error:', error);
+      res.status(500).json({ message: 'Server error revealing payment details' });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/donations/:id/attachments/:attachmentId
+// @desc    Mark a donation attachment as verified or rejected
+// @access  Private (donations:review)
+router.patch(
+  '/donations/:id/attachments/:attachmentId',
+  requirePermission('donations:review'),
+  [
+    body('status')
+      .isIn(['verified', 'rejected'])
+      .withMessage('Invalid status. Must be verified or rejected'),
+    body('note')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Note cannot exceed 500 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { status, note } = req.body;
+      const attachment = await reviewAttachment(
+        req.params.id,
+        req.params.attachmentId,
+        status,
+        req.user!._id,
+        note
+      );
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'REVIEW_DONATION_ATTACHMENT',
+        resource_type: 'donation_attachment',
+        resource_id: attachment._id,
+        details: { donation_id: req.params.id, status, note },
+        ip_address: req.ip,
+      });
+
+      res.json(serializeAttachment(attachment));
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Review attachment error:', error);
+      res.status(500).json({ message: 'Server error reviewing attachment' });
+    }
+  }
+);
+
+// ========== Review Queue ==========
+
+const formatNote = (note: any) => ({
+  id: note._id.toString(),
+  donation_id: note.donation_id.toString(),
+  author: note.author_id,
+  note: note.note,
+  created_at: note.created_at.toISOString(),
+});
+
+// Response body for a donation handed out by the review queue
+const formatQueueDonation = async (donationId: mongoose.Types.ObjectId) => {
+  const donation = await Donation.findById(donationId)
+    .populate('user_id', 'full_name email')
+    .populate('reason_id', 'title')
+    .populate('payment_method_id', 'name')
+    .lean();
+  if (!donation) {
+    return null;
+  }
+
+  const [attachments, notes, sensitiveKeys] = await Promise.all([
+    listAttachmentsForDonations([donation._id]),
+    listReviewNotes(donation._id),
+    loadSensitiveKeys([donation.payment_method_id]),
+  ]);
+
+  return {
+    id: donation._id.toString(),
+    user_id: donation.user_id,
+    amount: donation.amount,
+    currency: donation.currency || DEFAULT_CURRENCY,
+    status: donation.status,
+    payment_method_id: donation.payment_method_id,
+    reason_id: donation.reason_id,
+    message: donation.message,
+    is_anonymous: donation.is_anonymous,
+    payment_details: serializeWithAttachmentUrls(
+      donation._id.toString(),
+      donation.payment_details,
+      sensitiveKeys.get(String(donation.payment_method_id))
+    ),
+    created_at: donation.created_at.toISOString(),
+    claimed_by: donation.claimed_by?.toString(),
+    claimed_at: donation.claimed_at?.toISOString(),
+    claim_expires_at: donation.claim_expires_at?.toISOString(),
+    attachments: attachments.get(donation._id.toString()) || [],
+    notes: notes.map(formatNote),
+  };
+};
+
+// @route   GET /api/admin/queue
+// @desc    Review queue overview: pending count, who is reviewing what, average time to decision
+// @access  Private (donations:read)
+router.get('/queue', requirePermission('donations:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const overview = await getQueueOverview();
+    res.json(overview);
+  } catch (error: any) {
+    console.error('Get review queue error:', error);
+    res.status(500).json({ message: 'Server error fetching review queue' });
+  }
+});
+
+// @route   POST /api/admin/queue/claim
+// @desc    Claim the oldest unclaimed pending donation (or get back the one you already hold)
+// @access  Private (donations:review)
+router.post('/queue/claim', requirePermission('donations:review'), async (req: AuthRequest, res: Response) => {
+  try {
+    const donation = await claimNextDonation(req.user!._id);
+    if (!donation) {
+      return res.json({ donation: null, message: 'No pending donations are waiting for review' });
+    }
+
+    res.json({ donation: await formatQueueDonation(donation._id) });
+  } catch (error: any) {
+    console.error('Claim next donation error:', error);
+    res.status(500).json({ message: 'Server error claiming donation' });
+  }
+});
+
+// @route   POST /api/admin/queue/:id/claim
+// @desc    Claim a specific pending donation, or renew your claim on it
+// @access  Private (donations:review)
+router.post('/queue/:id/claim', requirePermission('donations:review'), async (req: AuthRequest, res: Response) => {
+  try {
+    const donation = await claimDonation(req.params.id, req.user!._id);
+    res.json({ donation: await formatQueueDonation(donation._id) });
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
+    }
+    console.error('Claim donation error:', error);
+    res.status(500).json({ message: 'Server error claiming donation' });
+  }
+});
+
+// @route   POST /api/admin/queue/:id/release
+// @desc    Release your claim so the donation returns to the queue
+// @access  Private (donations:review)
+router.post('/queue/:id/release', requirePermission('donations:review'), async (req: AuthRequest, res: Response) => {
+  try {
+    await releaseClaim(req.params.id, req.user!._id);
+    res.json({ message: 'Claim released' });
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
+    }
+    console.error('Release claim error:', error);
+    res.status(500).json({ message: 'Server error releasing claim' });
+  }
+});
+
+// @route   POST /api/admin/queue/:id/decision
+// @desc    Approve or decline a donation you have claimed
+// @access  Private (donations:review)
+router.post(
+  '/queue/:id/decision',
+  requirePermission('donations:review'),
+  [
+    body('decision')
+      .isIn(['approve', 'decline'])
+      .withMessage('Decision must be approve or decline'),
+    body('reason')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+    body('decline_reason_id')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid decline reason'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { decision, reason, decline_reason_id } = req.body;
+      const donation = await decideDonation(req.params.id, req.user!._id, decision, {
+        reason,
+        declineReasonId: decline_reason_id,
+      });
+
+      res.json({
+        id: donation._id.toString(),
+        status: donation.status,
+        confirmed_at: donation.confirmed_at?.toISOString(),
+        created_at: donation.created_at.toISOString(),
+        status_history: donation.status_history,
+        decline_reason: donation.decline_reason,
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Review decision error:', error);
+      res.status(500).json({ message: 'Server error recording decision' });
+    }
+  }
+);
+
+// @route   GET /api/admin/donations/:id/notes
+// @desc    Internal review notes on a donation, oldest first
+// @access  Private (donations:read)
+router.get('/donations/:id/notes', requirePermission('donations:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Donation not found' });
+    }
+
+    const notes = await listReviewNotes(req.params.id);
+    res.json(notes.map(formatNote));
+  } catch (error: any) {
+    console.error('Get donation notes error:', error);
+    res.status(500).json({ message: 'Server error fetching notes' });
+  }
+});
+
+// @route   POST /api/admin/donations/:id/notes
+// @desc    Add an internal review note (never shown to the donor)
+// @access  Private (donations:review)
+router.post(
+  '/donations/:id/notes',
+  requirePermission('donations:review'),
+  [
+    body('note')
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Note must be between 1 and 2000 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const note = await addReviewNote(req.params.id, req.user!._id, req.body.note);
+      await note.populate('author_id', 'full_name email');
+
+      res.status(201).json(formatNote(note));
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Add donation note error:', error);
+      res.status(500).json({ message: 'Server error adding note' });
+    }
+  }
+);
+
+// ========== Donation Reasons Management ==========
+
+// Percentages of a goal announced when reached, e.g. [25, 50, 75, 100] or "25,50,75,100"
+const milestonesValidator = () =>
+  body('milestones')
+    .optional()
+    .customSanitizer(parseMilestones)
+    .custom((value) => value !== null)
+    .withMessage('Milestones must be whole percentages between 1 and 1000');
+
+// Per-currency donation limits sent as `amount_rules`, used by reasons and
+// payment methods
+const amountRulesValidator = () =>
+  body('amount_rules')
+    .optional()
+    .custom((rules) => {
+      const ruleErrors = validateAmountRules(rules);
+      if (ruleErrors.length > 0) {
+        throw new Error(ruleErrors[0].message);
+      }
+      return true;
+    });
+
+// @route   GET /api/admin/reasons
+// @desc    Get all donation reasons
+// @access  Private (Staff)
+router.get('/reasons', async (req: express.Request, res: Response) => {
+  try {
+    const reasons = await DonationReason.find()
+      .sort({ created_at: -1 })
+      .lean();
+
+    res.json(reasons.map((r) => ({
+      id: r._id.toString(),
+      title: r.title,
+      description: r.description,
+      target_amount: r.target_amount,
+      milestones: r.milestones,
+      amount_rules: r.amount_rules || [],
+      is_active: r.is_active,
+      created_at: r.created_at.toISOString(),
+      updated_at: r.updated_at.toISOString(),
+    })));
+  } catch (error: any) {
+    console.error('Get reasons error:', error);
+    res.status(500).json({ message: 'Server error fetching reasons' });
+  }
+});
+
+// @route   POST /api/admin/reasons
+// @desc    Create a new donation reason
+// @access  Private (reasons:write)
+router.post(
+  '/reasons',
+  requirePermission('reasons:write'),
+  [
+    body('title').trim().notEmpty().withMessage('Title is required'),
+    body('description').optional().trim(),
+    body('target_amount').optional().isFloat({ gt: 0 }).withMessage('Target amount must be a positive number'),
+    milestonesValidator(),
+    amountRulesValidator(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { title, description, target_amount, milestones, amount_rules } = req.body;
+      const reason = await DonationReason.create({
+        title,
+        description,
+        target_amount: target_amount !== undefined ? Number(target_amount) : undefined,
+        milestones,
+        amount_rules: amount_rules ? normalizeAmountRules(amount_rules) : [],
+      });
+
+      res.status(201).json({
+        id: reason._id.toString(),
+        title: reason.title,
+        description: reason.description,
+        target_amount: reason.target_amount,
+        milestones: reason.milestones,
+        amount_rules: reason.amount_rules,
+        is_active: reason.is_active,
+        created_at: reason.created_at.toISOString(),
+        updated_at: reason.updated_at.toISOString(),
+      });
+    } catch (error: any) {
+      console.error('Create reason error:', error);
+      res.status(500).json({ message: 'Server error creating reason' });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/reasons/:id
+// @desc    Update a donation reason
+// @access  Private (reasons:write)
+router.patch(
+  '/reasons/:id',
+  requirePermission('reasons:write'),
+  [
+    body('title').optional().trim().notEmpty().withMessage('Title cannot be empty'),
+    body('description').optional().trim(),
+    body('is_active').optional().isBoolean(),
+    body('target_amount')
+      .optional({ values: 'null' })
+      .isFloat({ gt: 0 })
+      .withMessage('Target amount must be a positive number'),
+    milestonesValidator(),
+    amountRulesValidator(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { title, description, is_active, target_amount, milestones, amount_rules } = req.body;
+      const updateData: any = {};
+      if (title !== undefined) updateData.title = title;
+      if (description !== undefined) updateData.description = description;
+      if (is_active !== undefined) updateData.is_active = is_active;
+      if (milestones !== undefined) updateData.milestones = milestones;
+      if (amount_rules !== undefined) updateData.amount_rules = normalizeAmountRules(amount_rules);
+      // null removes the goal and stops milestone tracking
+      if (target_amount === null) updateData.$unset = { target_amount: 1 };
+      else if (target_amount !== undefined) updateData.target_amount = Number(target_amount);
+
+      const reason = await DonationReason.findByIdAndUpdate(
+        req.params.id,
+        updateData,
+        { new: true }
+      );
+
+      if (!reason) {
+        return res.status(404).json({ message: 'Reason not found' });
+      }
+
+      res.json({
+        id: reason._id.toString(),
+        title: reason.title,
+        description: reason.description,
+        target_amount: reason.target_amount,
+        milestones: reason.milestones,
+        amount_rules: reason.amount_rules,
+        is_active: reason.is_active,
+        created_at: reason.created_at.toISOString(),
+        updated_at: reason.updated_at.toISOString(),
+      });
+    } catch (error: any) {
+      console.error('Update reason error:', error);
+      res.status(500).json({ message: 'Server error updating reason' });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/reasons/:id
+// @desc    Delete a donation reason
+// @access  Private (reasons:write)
+router.delete('/reasons/:id', requirePermission('reasons:write'), async (req: AuthRequest, res: Response) => {
+  try {
+    const reason = await DonationReason.findByIdAndDelete(req.params.id);
+
+    if (!reason) {
+      return res.status(404).json({ message: 'Reason not found' });
+    }
+
+    res.json({ message: 'Reason deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete reason error:', error);
+    res.status(500).json({ message: 'Server error deleting reason' });
+  }
+});
+
+// ========== Campaigns Management ==========
+
+// Admin view: every status, with the cover's storage key and creator
+const formatAdminCampaign = (campaign: any, progress?: CampaignProgress) => ({
+  ...formatCampaign(campaign, progress),
+  cover_image: campaign.cover_image,
+  created_by: campaign.created_by?.toString(),
+});
+
+const campaignValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('title')
+      .trim()
+      .isLength({ min: 1, max: 150 })
+      .withMessage('Title must be between 1 and 150 characters'),
+    field('target_amount')
+      .isFloat({ gt: 0 })
+      .withMessage('Target amount must be a positive number'),
+    body('slug')
+      .optional()
+      .trim()
+      .toLowerCase()
+      .matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+      .withMessage('Slug may only contain lowercase letters, numbers and hyphens'),
+    body('description')
+      .optional()
+      .isLength({ max: 5000 })
+      .withMessage('Description cannot exceed 5000 characters'),
+    body('start_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Start date must be a valid date'),
+    body('end_date')
+      .optional({ values: 'falsy' })
+      .isISO8601()
+      .withMessage('End date must be a valid date'),
+    body('status')
+      .optional()
+      .isIn(CAMPAIGN_STATUSES)
+      .withMessage('Invalid status'),
+    body('reason_id')
+      .optional({ values: 'falsy' })
+      .isMongoId()
+      .withMessage('Invalid reason ID'),
+    milestonesValidator(),
+  ];
+};
+
+// @route   GET /api/admin/campaigns
+// @desc    Get all campaigns, including drafts and archived ones, with progress
+// @access  Private (Staff)
+router.get('/campaigns', async (req: express.Request, res: Response) => {
+  try {
+    const campaigns = await Campaign.find()
+      .sort({ created_at: -1 })
+      .lean();
+    const progress = await getCampaignsProgress(campaigns);
+
+    res.json(campaigns.map((c) => formatAdminCampaign(c, progress.get(c._id.toString()))));
+  } catch (error: any) {
+    console.error('Get campaigns error:', error);
+    res.status(500).json({ message: 'Server error fetching campaigns' });
+  }
+});
+
+// @route   POST /api/admin/campaigns
+// @desc    Create a campaign (multipart with an optional cover_image file, or JSON)
+// @access  Private (campaigns:write)
+router.post(
+  '/campaigns',
+  requirePermission('campaigns:write'),
+  handleUploadErrors(upload.single('cover_image')),
+  campaignValidators(false),
+  async (req: AuthRequest, res: Response) => {
+    let coverKey: string | undefined;
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { title, description, target_amount, start_date, end_date, status, reason_id, milestones } = req.body;
+      const slug = req.body.slug || slugify(title);
+      if (!slug) {
+        return res.status(400).json({ message: 'Please provide a slug' });
+      }
+
+      const startDate = start_date ? new Date(start_date) : new Date();
+      const endDate = end_date ? new Date(end_date) : undefined;
+      if (endDate && endDate <= startDate) {
+        return res.status(400).json({ message: 'End date must be after the start date' });
+      }
+
+      if (req.file) {
+        coverKey = await saveCampaignCover(req.file.buffer);
+      }
+
+      const campaign = await Campaign.create({
+        title,
+        slug,
+        description,
+        target_amount: Number(target_amount),
+        milestones,
+        start_date: startDate,
+        end_date: endDate,
+        status,
+        reason_id: reason_id || undefined,
+        cover_image: coverKey,
+        created_by: req.user!._id,
+      });
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'CREATE_CAMPAIGN',
+        resource_type: 'campaign',
+        resource_id: campaign._id,
+        details: { title: campaign.title, slug: campaign.slug },
+        ip_address: req.ip,
+      });
+
+      res.status(201).json(formatAdminCampaign(campaign, await getCampaignProgress(campaign)));
+    } catch (error: any) {
+      if (coverKey) {
+        deleteCampaignCover(coverKey);
+      }
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: 'A campaign with this slug already exists' });
+      }
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Create campaign error:', error);
+      res.status(500).json({ message: 'Server error creating campaign' });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/campaigns/:id
+// @desc    Update a campaign. A new cover_image file replaces the old one;
+//          `remove_cover_image=true` removes it.
+// @access  Private (campaigns:write)
+router.patch(
+  '/campaigns/:id',
+  requirePermission('campaigns:write'),
+  handleUploadErrors(upload.single('cover_image')),
+  campaignValidators(true),
+  async (req: AuthRequest, res: Response) => {
+    let coverKey: string | undefined;
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+
+      const campaign = await Campaign.findById(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+
+      const { title, slug, description, target_amount, start_date, end_date, status, reason_id, milestones } = req.body;
+      if (title !== undefined) campaign.title = title;
+      if (slug !== undefined) campaign.slug = slug;
+      if (description !== undefined) campaign.description = description;
+      if (target_amount !== undefined) campaign.target_amount = Number(target_amount);
+      if (milestones !== undefined) campaign.milestones = milestones;
+      if (start_date !== undefined) campaign.start_date = new Date(start_date);
+      if (end_date !== undefined) campaign.end_date = end_date ? new Date(end_date) : undefined;
+      if (status !== undefined) campaign.status = status;
+      if (reason_id !== undefined) campaign.reason_id = reason_id || undefined;
+
+      if (campaign.end_date && campaign.end_date <= campaign.start_date) {
+        return res.status(400).json({ message: 'End date must be after the start date' });
+      }
+
+      const previousCover = campaign.cover_image;
+      if (req.file) {
+        coverKey = await saveCampaignCover(req.file.buffer);
+        campaign.cover_image = coverKey;
+      } else if (req.body.remove_cover_image === true || req.body.remove_cover_image === 'true') {
+        campaign.cover_image = undefined;
+      }
+
+      await campaign.save();
+
+      if (previousCover && previousCover !== campaign.cover_image) {
+        deleteCampaignCover(previousCover);
+      }
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'UPDATE_CAMPAIGN',
+        resource_type: 'campaign',
+        resource_id: campaign._id,
+        details: { fields: Object.keys(req.body), cover_image_replaced: !!req.file },
+        ip_address: req.ip,
+      });
+
+      res.json(formatAdminCampaign(campaign, await getCampaignProgress(campaign)));
+    } catch (error: any) {
+      if (coverKey) {
+        deleteCampaignCover(coverKey);
+      }
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: 'A campaign with this slug already exists' });
+      }
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Update campaign error:', error);
+      res.status(500).json({ message: 'Server error updating campaign' });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/campaigns/:id
+// @desc    Delete a campaign that has no donations (archive it otherwise)
+// @access  Private (campaigns:write)
+router.delete('/campaigns/:id', requirePermission('campaigns:write'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    if (await hasCampaignDonations(req.params.id)) {
+      return res.status(409).json({
+        message: 'This campaign has donations. Set its status to archived instead.',
+      });
+    }
+
+    const campaign = await Campaign.findByIdAndDelete(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    if (campaign.cover_image) {
+      deleteCampaignCover(campaign.cover_image);
+    }
+
+    // Log activity
+    await ActivityLog.create({
+      user_id: req.user!._id,
+      action: 'DELETE_CAMPAIGN',
+      resource_type: 'campaign',
+      resource_id: campaign._id,
+      details: { title: campaign.title, slug: campaign.slug },
+      ip_address: req.ip,
+    });
+
+    res.json({ message: 'Campaign deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete campaign error:', error);
+    res.status(500).json({ message: 'Server error deleting campaign' });
+  }
+});
+
+// ========== Decline Reasons Management ==========
+
+const formatDeclineReason = (reason: any) => ({
+  id: reason._id.toString(),
+  title: reason.title,
+  message: reason.message,
+  is_active: reason.is_active,
+  order: reason.order,
+  created_at: reason.created_at.toISOString(),
+  updated_at: reason.updated_at.toISOString(),
+});
+
+// @route   GET /api/admin/decline-reasons
+// @desc    Get preset reasons for declining a donation
+// @access  Private (donations:review)
+router.get('/decline-reasons', requirePermission('donations:review'), async (req: express.Request, res: Response) => {
+  try {
+    const reasons = await DeclineReason.find()
+      .sort({ order: 1, created_at: 1 })
+      .lean();
+
+    res.json(reasons.map(formatDeclineReason));
+  } catch (error: any) {
+    console.error('Get decline reasons error:', error);
+    res.status(500).json({ message: 'Server error fetching decline reasons' });
+  }
+});
+
+// @route   POST /api/admin/decline-reasons
+// @desc    Create a preset decline reason
+// @access  Private (decline_reasons:write)
+router.post(
+  '/decline-reasons',
+  requirePermission('decline_reasons:write'),
+  [
+    body('title')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Title must be between 1 and 100 characters'),
+    body('message')
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Message must be between 3 and 500 characters'),
+    body('order').optional().isInt().withMessage('Order must be an integer'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const { title, message, order } = req.body;
+      const reason = await DeclineReason.create({ title, message, order });
+
+      res.status(201).json(formatDeclineReason(reason));
+    } catch (error: any) {
+      console.error('Create decline reason error:', error);
+      res.status(500).json({ message: 'Server error creating decline reason' });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/decline-reasons/:id
+// @desc    Update a preset decline reason
+// @access  Private (decline_reasons:write)
+router.patch(
+  '/decline-reasons/:id',
+  requirePermission('decline_reasons:write'),
+  [
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Title must be between 1 and 100 characters'),
+    body('message')
+      .optional()
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Message must be between 3 and 500 characters'),
+    body('is_active').optional().isBoolean(),
+    body('order').optional().isInt().withMessage('Order must be an integer'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ message: 'Decline reason not found' });
       }
 
-      // Create new user (default to admin if role not specified)
-      const user = await User.create({
-        email: email.toLowerCase(),
-        password,
-        full_name,
-        role: role || 'admin',
-        is_verified: true,
-      });
+      const { title, message, is_active, order } = req.body;
+      const updateData: any = {};
+      if (title !== undefined) updateData.title = title;
+      if (message !== undefined) updateData.message = message;
+      if (is_active !== undefined) updateData.is_active = is_active;
+      if (order !== undefined) updateData.order = order;
 
-      res.status(201).json({
-        id: user._id.toString(),
-        email: user.email,
-        full_name: user.full_name,
-        avatar_url: user.avatar_url,
-        role: user.role,
-        created_at: user.created_at.toISOString(),
-        updated_at: user.updated_at.toISOString(),
-      });
-    } catch (error: any) {
-      console.error('Create admin user error:', error);
-      if (error.code === 11000) {
-        return res.status(400).json({ message: 'User with this email already exists' });
+      const reason = await DeclineReason.findByIdAndUpdate(
+        req.params.id,
+        updateData,
+        { new: true }
+      );
+
+      if (!reason) {
+        return res.status(404).json({ message: 'Decline reason not found' });
       }
-      res.status(500).json({ message: 'Server error creating admin user' });
+
+      res.json(formatDeclineReason(reason));
+    } catch (error: any) {
+      console.error('Update decline reason error:', error);
+      res.status(500).json({ message: 'Server error updating decline reason' });
     }
   }
 );
 
-// @route   PATCH /api/admin/users/:id/role
-// @desc    Update user role
-// @access  Private (Admin)
-router.patch('/users/:id/role', async (req: AuthRequest, res: Response) => {
+// @route   DELETE /api/admin/decline-reasons/:id
+// @desc    Delete a preset decline reason. Declined donations keep the message they were given.
+// @access  Private (decline_reasons:write)
+router.delete('/decline-reasons/:id', requirePermission('decline_reasons:write'), async (req: AuthRequest, res: Response) => {
   try {
-    const { role } = req.body;
-    if (!['user', 'admin'].includes(role)) {
-      return res.status(400).json({ message: 'Invalid role' });
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Decline reason not found' });
     }
 
-    const user = await User.findByIdAndUpdate(
-      req.params.id,
-      { role },
-      { new: true }
-    ).select('-password');
+    const reason = await DeclineReason.findByIdAndDelete(req.params.id);
 
-    if (!user) {
-      return res.status(404).json({ message: 'User not found' });
+    if (!reason) {
+      return res.status(404).json({ message: 'Decline reason not found' });
     }
 
-    res.json({
-      id: user._id.toString(),
-      email: user.email,
-      full_name: user.full_name,
-      avatar_url: user.avatar_url,
-      role: user.role,
-      created_at: user.created_at.toISOString(),
-      updated_at: user.updated_at.toISOString(),
-    });
+    res.json({ message: 'Decline reason deleted successfully' });
   } catch (error: any) {
-    console.error('Update user role error:', error);
-    res.status(500).json({ message: 'Server error updating user role' });
+    console.error('Delete decline reason error:', error);
+    res.status(500).json({ message: 'Server error deleting decline reason' });
   }
 });
 
-// @route   DELETE /api/admin/users/:id
-// @desc    Delete a user
-// @access  Private (Admin)
-router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.params.id;
-
-    // Prevent deleting yourself
-    if (userId === req.user!._id.toString()) {
-      return res.status(400).json({ message: 'You cannot delete your own account' });
-    }
-
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ message: 'User not found' });
-    }
+// ========== Currencies & Exchange Rates ==========
+
+const formatCurrency = (currency: any) => ({
+  id: currency._id.toString(),
+  code: currency.code,
+  name: currency.name,
+  symbol: currency.symbol,
+  min_amount: currency.min_amount,
+  max_amount: currency.max_amount,
+  presets: currency.presets || [],
+  is_active: currency.is_active,
+  created_at: currency.created_at.toISOString(),
+  updated_at: currency.updated_at.toISOString(),
+});
 
-    await User.findByIdAndDelete(userId);
+const formatExchangeRate = (rate: any) => ({
+  id: rate._id.toString(),
+  currency: rate.currency,
+  base_currency: rate.base_currency,
+  rate: rate.rate,
+  effective_at: rate.effective_at.toISOString(),
+  source: rate.source,
+  created_by: rate.created_by?.toString(),
+  created_at: rate.created_at.toISOString(),
+});
 
-    res.json({ message: 'User deleted successfully' });
+// @route   GET /api/admin/currencies
+// @desc    Get all currencies, including inactive ones
+// @access  Private (Staff)
+router.get('/currencies', async (req: express.Request, res: Response) => {
+  try {
+    const currencies = await Currency.find().sort({ code: 1 }).lean();
+    res.json({
+      reporting_currency: getReportingCurrency(),
+      currencies: currencies.map(formatCurrency),
+    });
   } catch (error: any) {
-    console.error('Delete user error:', error);
-    res.status(500).json({ message: 'Server error deleting user' });
+    console.error('Get currencies error:', error);
+    res.status(500).json({ message: 'Server error fetching currencies' });
   }
 });
 
-// @route   PATCH /api/admin/donations/bulk-status
-// @desc    Bulk update donation status (accept all pending or decline all pending)
-// @access  Private (Admin)
-// NOTE: This route must come BEFORE /donations/:id/status to avoid route conflicts
-router.patch(
-  '/donations/bulk-status',
+// @route   POST /api/admin/currencies
+// @desc    Accept a new currency with its donation limits
+// @access  Private (currencies:write)
+router.post(
+  '/currencies',
+  requirePermission('currencies:write'),
   [
-    body('status')
-      .isIn(['confirmed', 'cancelled'])
-      .withMessage('Invalid status. Must be confirmed or cancelled'),
-    body('filter_status')
-      .optional()
-      .isIn(['pending', 'confirmed', 'completed', 'cancelled'])
-      .withMessage('Invalid filter status'),
+    body('code')
+      .trim()
+      .toUpperCase()
+      .matches(CURRENCY_CODE_REGEX)
+      .withMessage('Currency code must be a 3-letter ISO 4217 code'),
+    body('name').trim().notEmpty().withMessage('Name is required'),
+    body('symbol').optional().trim().isLength({ max: 10 }).withMessage('Symbol cannot exceed 10 characters'),
+    body('min_amount').isFloat({ min: 0 }).withMessage('Minimum amount must be a non-negative number'),
+    body('max_amount').optional().isFloat({ gt: 0 }).withMessage('Maximum amount must be a positive number'),
+    body('presets').optional().isArray().withMessage('Presets must be a list of amounts'),
+    body('is_active').optional().isBoolean(),
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -327,40 +1640,56 @@ router.patch(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { status, filter_status } = req.body;
-      
-      // Build query - default to pending if no filter_status provided
-      const query: any = { status: filter_status || 'pending' };
-
-      // Update all matching donations
-      const updateData: any = { status };
-      if (status === 'confirmed') {
-        updateData.confirmed_at = new Date();
+      const { code, name, symbol, min_amount, max_amount, presets, is_active } = req.body;
+      const limits = {
+        min_amount: Number(min_amount),
+        max_amount: max_amount !== undefined ? Number(max_amount) : undefined,
+        presets: presets?.length ? [...new Set<number>(presets)].sort((a, b) => a - b) : undefined,
+      };
+      const limitErrors = validateCurrencyLimits(limits);
+      if (limitErrors.length > 0) {
+        return res.status(400).json({ message: limitErrors[0].message, errors: limitErrors });
       }
 
-      const result = await Donation.updateMany(query, updateData);
-      
-      res.json({
-        message: `Successfully updated ${result.modifiedCount} donation(s)`,
-        modifiedCount: result.modifiedCount,
-        matchedCount: result.matchedCount,
+      const currency = await Currency.create({ code, name, symbol, ...limits, is_active });
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'CREATE_CURRENCY',
+        resource_type: 'currency',
+        resource_id: currency._id,
+        details: { code: currency.code, ...limits },
+        ip_address: req.ip,
       });
+
+      res.status(201).json(formatCurrency(currency));
     } catch (error: any) {
-      console.error('Bulk update donation status error:', error);
-      res.status(500).json({ message: 'Server error bulk updating donation status' });
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: 'This currency already exists' });
+      }
+      console.error('Create currency error:', error);
+      res.status(500).json({ message: 'Server error creating currency' });
     }
   }
 );
 
-// @route   PATCH /api/admin/donations/:id/status
-// @desc    Update donation status (approve/decline)
-// @access  Private (Admin)
+// @route   PATCH /api/admin/currencies/:code
+// @desc    Update a currency's name, symbol, donation limits or active state
+// @access  Private (currencies:write)
 router.patch(
-  '/donations/:id/status',
+  '/currencies/:code',
+  requirePermission('currencies:write'),
   [
-    body('status')
-      .isIn(['pending', 'confirmed', 'cancelled'])
-      .withMessage('Invalid status'),
+    body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
+    body('symbol').optional().trim().isLength({ max: 10 }).withMessage('Symbol cannot exceed 10 characters'),
+    body('min_amount').optional().isFloat({ min: 0 }).withMessage('Minimum amount must be a non-negative number'),
+    body('max_amount')
+      .optional({ values: 'null' })
+      .isFloat({ gt: 0 })
+      .withMessage('Maximum amount must be a positive number'),
+    body('presets').optional({ values: 'null' }).isArray().withMessage('Presets must be a list of amounts'),
+    body('is_active').optional().isBoolean(),
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -369,109 +1698,159 @@ router.patch(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { status } = req.body;
-      const donation = await Donation.findById(req.params.id);
-
-      if (!donation) {
-        return res.status(404).json({ message: 'Donation not found' });
+      const { name, symbol, min_amount, max_amount, presets, is_active } = req.body;
+      const existing = await Currency.findOne({ code: req.params.code.toUpperCase() }).lean();
+      if (!existing) {
+        return res.status(404).json({ message: 'Currency not found' });
       }
 
-      donation.status = status;
-      if (status === 'confirmed' && !donation.confirmed_at) {
-        donation.confirmed_at = new Date();
+      const updateData: any = {};
+      const unset: Record<string, 1> = {};
+      if (name !== undefined) updateData.name = name;
+      if (symbol !== undefined) updateData.symbol = symbol;
+      if (min_amount !== undefined) updateData.min_amount = Number(min_amount);
+      if (is_active !== undefined) updateData.is_active = is_active;
+      // null (or an empty preset list) removes the limit
+      if (max_amount === null) unset.max_amount = 1;
+      else if (max_amount !== undefined) updateData.max_amount = Number(max_amount);
+      if (presets === null || presets?.length === 0) unset.presets = 1;
+      else if (presets !== undefined) updateData.presets = [...new Set<number>(presets)].sort((a, b) => a - b);
+
+      // The limits have to agree with each other after the update
+      const limitErrors = validateCurrencyLimits({
+        min_amount: updateData.min_amount ?? existing.min_amount,
+        max_amount: unset.max_amount ? undefined : updateData.max_amount ?? existing.max_amount,
+        presets: unset.presets ? undefined : updateData.presets ?? existing.presets,
+      });
+      if (limitErrors.length > 0) {
+        return res.status(400).json({ message: limitErrors[0].message, errors: limitErrors });
       }
 
-      await donation.save();
-
-      const populatedDonation = await Donation.findById(donation._id)
-        .populate('user_id', 'full_name email')
-        .populate('reason_id', 'title')
-        .lean();
+      const currency = await Currency.findOneAndUpdate(
+        { _id: existing._id },
+        Object.keys(unset).length > 0 ? { ...updateData, $unset: unset } : updateData,
+        { new: true, runValidators: true }
+      );
+      if (!currency) {
+        return res.status(404).json({ message: 'Currency not found' });
+      }
 
-      res.json({
-        id: populatedDonation?._id.toString(),
-        user_id: populatedDonation?.user_id,
-        amount: populatedDonation?.amount,
-        status: populatedDonation?.status,
-        reason_id: populatedDonation?.reason_id,
-        confirmed_at: populatedDonation?.confirmed_at?.toISOString(),
-        created_at: populatedDonation?.created_at.toISOString(),
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'UPDATE_CURRENCY',
+        resource_type: 'currency',
+        resource_id: currency._id,
+        details: {
+          code: currency.code,
+          ...updateData,
+          ...(Object.keys(unset).length > 0 && { cleared: Object.keys(unset) }),
+        },
+        ip_address: req.ip,
       });
+
+      res.json(formatCurrency(currency));
     } catch (error: any) {
-      console.error('Update donation status error:', error);
-      res.status(500).json({ message: 'Server error updating donation status' });
+      console.error('Update currency error:', error);
+      res.status(500).json({ message: 'Server error updating currency' });
     }
   }
 );
 
-// ========== Donation Reasons Management ==========
-
-// @route   GET /api/admin/reasons
-// @desc    Get all donation reasons
-// @access  Private (Admin)
-router.get('/reasons', async (req: express.Request, res: Response) => {
+// @route   DELETE /api/admin/currencies/:code
+// @desc    Delete a currency no donation or pledge uses (deactivate it otherwise)
+// @access  Private (currencies:write)
+router.delete('/currencies/:code', requirePermission('currencies:write'), async (req: AuthRequest, res: Response) => {
   try {
-    const reasons = await DonationReason.find()
-      .sort({ created_at: -1 })
-      .lean();
+    const code = req.params.code.toUpperCase();
+    const inUse = await Donation.exists({ currency: code }) || await Pledge.exists({ currency: code });
+    if (inUse) {
+      return res.status(409).json({
+        message: 'This currency is used by donations or pledges. Set is_active to false instead.',
+      });
+    }
 
-    res.json(reasons.map((r) => ({
-      id: r._id.toString(),
-      title: r.title,
-      description: r.description,
-      is_active: r.is_active,
-      created_at: r.created_at.toISOString(),
-      updated_at: r.updated_at.toISOString(),
-    })));
+    const currency = await Currency.findOneAndDelete({ code });
+    if (!currency) {
+      return res.status(404).json({ message: 'Currency not found' });
+    }
+
+    // Log activity
+    await ActivityLog.create({
+      user_id: req.user!._id,
+      action: 'DELETE_CURRENCY',
+      resource_type: 'currency',
+      resource_id: currency._id,
+      details: { code: currency.code },
+      ip_address: req.ip,
+    });
+
+    res.json({ message: 'Currency deleted successfully' });
   } catch (error: any) {
-    console.error('Get reasons error:', error);
-    res.status(500).json({ message: 'Server error fetching reasons' });
+    console.error('Delete currency error:', error);
+    res.status(500).json({ message: 'Server error deleting currency' });
   }
 });
 
-// @route   POST /api/admin/reasons
-// @desc    Create a new donation reason
-// @access  Private (Admin)
-router.post(
-  '/reasons',
+// @route   GET /api/admin/exchange-rates
+// @desc    Exchange rates into the reporting currency, newest first
+// @access  Private (Staff)
+router.get(
+  '/exchange-rates',
   [
-    body('title').trim().notEmpty().withMessage('Title is required'),
-    body('description').optional().trim(),
+    query('currency')
+      .optional()
+      .toUpperCase()
+      .matches(CURRENCY_CODE_REGEX)
+      .withMessage('Currency code must be a 3-letter ISO 4217 code'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 500 })
+      .withMessage('Limit must be between 1 and 500'),
   ],
-  async (req: AuthRequest, res: Response) => {
+  async (req: express.Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { title, description } = req.body;
-      const reason = await DonationReason.create({ title, description });
+      const filter: Record<string, any> = { base_currency: getReportingCurrency() };
+      if (req.query.currency) {
+        filter.currency = req.query.currency;
+      }
 
-      res.status(201).json({
-        id: reason._id.toString(),
-        title: reason.title,
-        description: reason.description,
-        is_active: reason.is_active,
-        created_at: reason.created_at.toISOString(),
-        updated_at: reason.updated_at.toISOString(),
+      const rates = await ExchangeRate.find(filter)
+        .sort({ effective_at: -1 })
+        .limit(parseInt(req.query.limit as string) || 100)
+        .lean();
+
+      res.json({
+        base_currency: getReportingCurrency(),
+        rates: rates.map(formatExchangeRate),
       });
     } catch (error: any) {
-      console.error('Create reason error:', error);
-      res.status(500).json({ message: 'Server error creating reason' });
+      console.error('Get exchange rates error:', error);
+      res.status(500).json({ message: 'Server error fetching exchange rates' });
     }
   }
 );
 
-// @route   PATCH /api/admin/reasons/:id
-// @desc    Update a donation reason
-// @access  Private (Admin)
-router.patch(
-  '/reasons/:id',
+// @route   POST /api/admin/exchange-rates
+// @desc    Record what one unit of a currency is worth in the reporting
+//          currency from `effective_at` (default now)
+// @access  Private (currencies:write)
+router.post(
+  '/exchange-rates',
+  requirePermission('currencies:write'),
   [
-    body('title').optional().trim().notEmpty().withMessage('Title cannot be empty'),
-    body('description').optional().trim(),
-    body('is_active').optional().isBoolean(),
+    body('currency')
+      .trim()
+      .toUpperCase()
+      .matches(CURRENCY_CODE_REGEX)
+      .withMessage('Currency code must be a 3-letter ISO 4217 code'),
+    body('rate').isFloat({ gt: 0 }).withMessage('Rate must be a positive number'),
+    body('effective_at').optional().isISO8601().withMessage('Effective date must be a valid date'),
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -480,52 +1859,112 @@ router.patch(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { title, description, is_active } = req.body;
-      const updateData: any = {};
-      if (title !== undefined) updateData.title = title;
-      if (description !== undefined) updateData.description = description;
-      if (is_active !== undefined) updateData.is_active = is_active;
-
-      const reason = await DonationReason.findByIdAndUpdate(
-        req.params.id,
-        updateData,
-        { new: true }
-      );
-
-      if (!reason) {
-        return res.status(404).json({ message: 'Reason not found' });
+      const baseCurrency = getReportingCurrency();
+      if (req.body.currency === baseCurrency) {
+        return res.status(400).json({ message: `${baseCurrency} is the reporting currency and always has a rate of 1` });
       }
 
-      res.json({
-        id: reason._id.toString(),
-        title: reason.title,
-        description: reason.description,
-        is_active: reason.is_active,
-        created_at: reason.created_at.toISOString(),
-        updated_at: reason.updated_at.toISOString(),
+      const rate = await ExchangeRate.create({
+        currency: req.body.currency,
+        base_currency: baseCurrency,
+        rate: Number(req.body.rate),
+        effective_at: req.body.effective_at ? new Date(req.body.effective_at) : new Date(),
+        source: 'admin',
+        created_by: req.user!._id,
+      });
+
+      // Log activity
+      await ActivityLog.create({
+        user_id: req.user!._id,
+        action: 'CREATE_EXCHANGE_RATE',
+        resource_type: 'exchange_rate',
+        resource_id: rate._id,
+        details: { currency: rate.currency, base_currency: rate.base_currency, rate: rate.rate },
+        ip_address: req.ip,
       });
+
+      res.status(201).json(formatExchangeRate(rate));
     } catch (error: any) {
-      console.error('Update reason error:', error);
-      res.status(500).json({ message: 'Server error updating reason' });
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: 'A rate for this currency already takes effect at that time' });
+      }
+      console.error('Create exchange rate error:', error);
+      res.status(500).json({ message: 'Server error creating exchange rate' });
     }
   }
 );
 
-// @route   DELETE /api/admin/reasons/:id
-// @desc    Delete a donation reason
-// @access  Private (Admin)
-router.delete('/reasons/:id', async (req: AuthRequest, res: Response) => {
+// @route   DELETE /api/admin/exchange-rates/:id
+// @desc    Delete a mistaken exchange rate. Stats pick up the rate that was in
+//          force before it.
+// @access  Private (currencies:write)
+router.delete('/exchange-rates/:id', requirePermission('currencies:write'), async (req: AuthRequest, res: Response) => {
   try {
-    const reason = await DonationReason.findByIdAndDelete(req.params.id);
+    const rate = mongoose.isValidObjectId(req.params.id)
+      ? await ExchangeRate.findByIdAndDelete(req.params.id)
+      : null;
+    if (!rate) {
+      return res.status(404).json({ message: 'Exchange rate not found' });
+    }
 
-    if (!reason) {
-      return res.status(404).json({ message: 'Reason not found' });
+    // Log activity
+    await ActivityLog.create({
+      user_id: req.user!._id,
+      action: 'DELETE_EXCHANGE_RATE',
+      resource_type: 'exchange_rate',
+      resource_id: rate._id,
+      details: { currency: rate.currency, rate: rate.rate, effective_at: rate.effective_at },
+      ip_address: req.ip,
+    });
+
+    res.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete exchange rate error:', error);
+    res.status(500).json({ message: 'Server error deleting exchange rate' });
+  }
+});
+
+// ========== Login Lockouts ==========
+
+// @route   GET /api/admin/locks
+// @desc    List accounts and IP addresses currently locked out
+// @access  Private (security:manage)
+router.get('/locks', requirePermission('security:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const locks = await listActiveLocks();
+
+    res.json({
+      locks: locks.map((l) => ({
+        id: l._id.toString(),
+        action: l.action,
+        scope: l.scope,
+        identifier: l.identifier,
+        locked_until: l.locked_until?.toISOString(),
+        lock_count: l.lock_count,
+        last_failure_at: l.last_failure_at?.toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get locks error:', error);
+    res.status(500).json({ message: 'Server error fetching locks' });
+  }
+});
+
+// @route   DELETE /api/admin/locks/:id
+// @desc    Lift a lockout before it expires
+// @access  Private (security:manage)
+router.delete('/locks/:id', requirePermission('security:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const lock = await clearLock(req.params.id, req.user!._id);
+
+    if (!lock) {
+      return res.status(404).json({ message: 'Lock not found' });
     }
 
-    res.json({ message: 'Reason deleted successfully' });
+    res.json({ message: 'Lock cleared successfully' });
   } catch (error: any) {
-    console.error('Delete reason error:', error);
-    res.status(500).json({ message: 'Server error deleting reason' });
+    console.error('Clear lock error:', error);
+    res.status(500).json({ message: 'Server error clearing lock' });
   }
 });
 
@@ -533,7 +1972,7 @@ router.delete('/reasons/:id', async (req: AuthRequest, res: Response) => {
 
 // @route   GET /api/admin/communication-methods
 // @desc    Get all communication methods
-// @access  Private (Admin)
+// @access  Private (Staff)
 router.get('/communication-methods', async (req: express.Request, res: Response) => {
   try {
     const methods = await CommunicationMethod.find()
@@ -559,9 +1998,10 @@ router.get('/communication-methods', async (req: express.Request, res: Response)
 
 // @route   POST /api/admin/communication-methods
 // @desc    Create a new communication method
-// @access  Private (Admin)
+// @access  Private (communication_methods:write)
 router.post(
   '/communication-methods',
+  requirePermission('communication_methods:write'),
   [
     body('name').trim().notEmpty().withMessage('Name is required'),
     body('type')
@@ -607,9 +2047,10 @@ router.post(
 
 // @route   PATCH /api/admin/communication-methods/:id
 // @desc    Update a communication method
-// @access  Private (Admin)
+// @access  Private (communication_methods:write)
 router.patch(
   '/communication-methods/:id',
+  requirePermission('communication_methods:write'),
   [
     body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
     body('type').optional().isIn(['email', 'telegram', 'whatsapp', 'phone', 'other']),
@@ -664,8 +2105,8 @@ router.patch(
 
 // @route   DELETE /api/admin/communication-methods/:id
 // @desc    Delete a communication method
-// @access  Private (Admin)
-router.delete('/communication-methods/:id', async (req: AuthRequest, res: Response) => {
+// @access  Private (communication_methods:write)
+router.delete('/communication-methods/:id', requirePermission('communication_methods:write'), async (req: AuthRequest, res: Response) => {
   try {
     const method = await CommunicationMethod.findByIdAndDelete(req.params.id);
 
@@ -681,10 +2122,23 @@ router.delete('/communication-methods/:id', async (req: AuthRequest, res: Respon
 });
 
 // Payment Methods Management
+
+// Validates the admin-defined form schema sent as `fields`
+const paymentFieldsValidator = () =>
+  body('fields')
+    .optional()
+    .custom((fields) => {
+      const fieldErrors = validateFieldDefinitions(fields);
+      if (fieldErrors.length > 0) {
+        throw new Error(fieldErrors[0].message);
+      }
+      return true;
+    });
+
 // @route   GET /api/admin/payment-methods
 // @desc    Get all payment methods
-// @access  Private (Admin)
-router.get('/payment-methods', async (req: express.Request, res: Response) => {
+// @access  Private (payment_methods:read)
+router.get('/payment-methods', requirePermission('payment_methods:read'), async (req: express.Request, res: Response) => {
   try {
     const methods = await PaymentMethod.find()
       .sort({ order: 1, created_at: -1 })
@@ -695,14 +2149,12 @@ router.get('/payment-methods', async (req: express.Request, res: Response) => {
       name: method.name,
       type: method.type,
       label: method.label,
-      requires_code: method.requires_code,
-      requires_receipt: method.requires_receipt,
-      requires_address: method.requires_address,
-      requires_email: method.requires_email,
+      fields: method.fields || [],
+      amount_rules: method.amount_rules || [],
       icon: method.icon,
       description: method.description,
       caution_note: method.caution_note,
-      receiving_account: method.receiving_account,
+      receiving_account: decryptOptionalField(method.receiving_account),
       has_display_text: method.has_display_text,
       display_label: method.display_label,
       display_text: method.display_text,
@@ -721,15 +2173,13 @@ router.get('/payment-methods', async (req: express.Request, res: Response) => {
 
 // @route   POST /api/admin/payment-methods
 // @desc    Create a new payment method
-// @access  Private (Admin)
-router.post('/payment-methods', [
+// @access  Private (payment_methods:write)
+router.post('/payment-methods', requirePermission('payment_methods:write'), [
   body('name').trim().notEmpty().withMessage('Name is required'),
   body('type').isIn(['gift_card', 'bitcoin', 'paypal', 'other']).withMessage('Invalid payment type'),
   body('label').trim().notEmpty().withMessage('Label is required'),
-  body('requires_code').isBoolean().withMessage('Requires code must be boolean'),
-  body('requires_receipt').isBoolean().withMessage('Requires receipt must be boolean'),
-  body('requires_address').isBoolean().withMessage('Requires address must be boolean'),
-  body('requires_email').isBoolean().withMessage('Requires email must be boolean'),
+  paymentFieldsValidator(),
+  amountRulesValidator(),
   body('icon').optional().isString(),
   body('description').optional().isLength({ max: 500 }),
   body('caution_note').optional().isLength({ max: 1000 }),
@@ -749,10 +2199,8 @@ router.post('/payment-methods', [
       name, 
       type, 
       label, 
-      requires_code, 
-      requires_receipt, 
-      requires_address, 
-      requires_email,
+      fields,
+      amount_rules,
       icon,
       description,
       caution_note,
@@ -767,14 +2215,12 @@ router.post('/payment-methods', [
       name,
       type,
       label,
-      requires_code,
-      requires_receipt,
-      requires_address,
-      requires_email,
+      fields: fields ? normalizeFieldDefinitions(fields) : [],
+      amount_rules: amount_rules ? normalizeAmountRules(amount_rules) : [],
       icon,
       description,
       caution_note,
-      receiving_account,
+      receiving_account: receiving_account ? encryptField(receiving_account) : receiving_account,
       has_display_text: has_display_text || false,
       display_label,
       display_text,
@@ -794,14 +2240,12 @@ router.post('/payment-methods', [
       name: method.name,
       type: method.type,
       label: method.label,
-      requires_code: method.requires_code,
-      requires_receipt: method.requires_receipt,
-      requires_address: method.requires_address,
-      requires_email: method.requires_email,
+      fields: method.fields || [],
+      amount_rules: method.amount_rules || [],
       icon: method.icon,
       description: method.description,
       caution_note: method.caution_note,
-      receiving_account: method.receiving_account,
+      receiving_account: decryptOptionalField(method.receiving_account),
       has_display_text: method.has_display_text,
       display_label: method.display_label,
       display_text: method.display_text,
@@ -818,15 +2262,13 @@ router.post('/payment-methods', [
 
 // @route   PATCH /api/admin/payment-methods/:id
 // @desc    Update a payment method
-// @access  Private (Admin)
-router.patch('/payment-methods/:id', [
+// @access  Private (payment_methods:write)
+router.patch('/payment-methods/:id', requirePermission('payment_methods:write'), [
   body('name').optional().trim().notEmpty().withMessage('Name is required'),
   body('type').optional().isIn(['gift_card', 'bitcoin', 'paypal', 'other']).withMessage('Invalid payment type'),
   body('label').optional().trim().notEmpty().withMessage('Label is required'),
-  body('requires_code').optional().isBoolean().withMessage('Requires code must be boolean'),
-  body('requires_receipt').optional().isBoolean().withMessage('Requires receipt must be boolean'),
-  body('requires_address').optional().isBoolean().withMessage('Requires address must be boolean'),
-  body('requires_email').optional().isBoolean().withMessage('Requires email must be boolean'),
+  paymentFieldsValidator(),
+  amountRulesValidator(),
   body('icon').optional().isString(),
   body('description').optional().isLength({ max: 500 }),
   body('caution_note').optional().isLength({ max: 1000 }),
@@ -849,10 +2291,8 @@ router.patch('/payment-methods/:id', [
       name, 
       type, 
       label, 
-      requires_code, 
-      requires_receipt, 
-      requires_address, 
-      requires_email,
+      fields,
+      amount_rules,
       icon,
       description,
       caution_note,
@@ -869,14 +2309,14 @@ router.patch('/payment-methods/:id', [
     if (name !== undefined) updateData.name = name;
     if (type !== undefined) updateData.type = type;
     if (label !== undefined) updateData.label = label;
-    if (requires_code !== undefined) updateData.requires_code = requires_code;
-    if (requires_receipt !== undefined) updateData.requires_receipt = requires_receipt;
-    if (requires_address !== undefined) updateData.requires_address = requires_address;
-    if (requires_email !== undefined) updateData.requires_email = requires_email;
+    if (fields !== undefined) updateData.fields = normalizeFieldDefinitions(fields);
+    if (amount_rules !== undefined) updateData.amount_rules = normalizeAmountRules(amount_rules);
     if (icon !== undefined) updateData.icon = icon;
     if (description !== undefined) updateData.description = description;
     if (caution_note !== undefined) updateData.caution_note = caution_note;
-    if (receiving_account !== undefined) updateData.receiving_account = receiving_account;
+    if (receiving_account !== undefined) {
+      updateData.receiving_account = receiving_account ? encryptField(receiving_account) : receiving_account;
+    }
     if (has_display_text !== undefined) updateData.has_display_text = has_display_text;
     if (display_label !== undefined) updateData.display_label = display_label;
     if (display_text !== undefined) updateData.display_text = display_text;
@@ -906,14 +2346,12 @@ router.patch('/payment-methods/:id', [
       name: method.name,
       type: method.type,
       label: method.label,
-      requires_code: method.requires_code,
-      requires_receipt: method.requires_receipt,
-      requires_address: method.requires_address,
-      requires_email: method.requires_email,
+      fields: method.fields || [],
+      amount_rules: method.amount_rules || [],
       icon: method.icon,
       description: method.description,
       caution_note: method.caution_note,
-      receiving_account: method.receiving_account,
+      receiving_account: decryptOptionalField(method.receiving_account),
       has_display_text: method.has_display_text,
       display_label: method.display_label,
       display_text: method.display_text,
@@ -930,8 +2368,8 @@ router.patch('/payment-methods/:id', [
 
 // @route   DELETE /api/admin/payment-methods/:id
 // @desc    Delete a payment method
-// @access  Private (Admin)
-router.delete('/payment-methods/:id', async (req: AuthRequest, res: Response) => {
+// @access  Private (payment_methods:write)
+router.delete('/payment-methods/:id', requirePermission('payment_methods:write'), async (req: AuthRequest, res: Response) => {
   try {
     const method = await PaymentMethod.findByIdAndDelete(req.params.id);
 
@@ -1,26 +1,54 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import crypto from 'crypto';
 import mongoose from 'mongoose';
-import User from '../models/User';
+import User, { IUser } from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import {
+  ClientInfo,
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+} from '../services/sessionService';
+import {
+  beginEnrollment,
+  completeLoginChallenge,
+  confirmEnrollment,
+  createLoginChallenge,
+  disableTwoFactor,
+  openLoginChallenge,
+  regenerateRecoveryCodes,
+} from '../services/twoFactorService';
+import { getThrottleSubject, throttle } from '../middleware/throttle';
+import { getLockStatus, recordFailure, recordSuccess } from '../services/throttleService';
+import { getPermissions } from '../config/permissions';
+import { queueMail } from '../mailer';
+import { isHttpError } from '../utils/errors';
 
 const router = express.Router();
 
-// Generate JWT token
-const generateToken = (id: string): string => {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined in environment variables');
-  }
-  // expiresIn accepts string values like '7d', '1h', etc. or numbers (seconds)
-  // TypeScript's StringValue type from ms package - we cast to satisfy the type checker
-  const expiresInValue = process.env.JWT_EXPIRES_IN || '7d';
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return jwt.sign({ id }, secret, { expiresIn: expiresInValue } as any);
+// Device details stored on the session so users can recognise it later
+const getClientInfo = (req: Request): ClientInfo => ({
+  user_agent: req.get('user-agent'),
+  ip_address: req.ip || req.socket.remoteAddress,
+});
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 3600000; // 24 hours
+
+// Set a new email verification token on the user (caller saves) and return
+// the raw token. Only the SHA-256 hash is stored, like password reset tokens.
+const issueVerificationToken = (user: IUser): string => {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+  user.email_verification_token = crypto.createHash('sha256').update(verificationToken).digest('hex');
+  user.email_verification_expires = new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS);
+  return verificationToken;
 };
 
+const getVerificationUrl = (verificationToken: string): string =>
+  `${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify-email?token=${verificationToken}`;
+
 // @route   POST /api/auth/signup
 // @desc    Register a new user
 // @access  Public
@@ -53,24 +81,32 @@ router.post(
         return res.status(400).json({ message: 'User with this email already exists' });
       }
 
-      // Create new user
-      const user = await User.create({
+      // Create new user with a pending email verification
+      const user = new User({
         email,
         password,
         full_name,
       });
+      const verificationToken = issueVerificationToken(user);
+      await user.save();
 
-      // Generate token
-      const token = generateToken(user._id.toString());
+      await queueMail(user.email, 'email_verification', {
+        full_name: user.full_name,
+        verification_url: getVerificationUrl(verificationToken),
+      });
+
+      // Start a session and issue access + refresh tokens
+      const tokens = await createSession(user._id, getClientInfo(req));
 
       res.status(201).json({
-        token,
+        ...tokens,
         user: {
           id: user._id.toString(),
           email: user.email,
           full_name: user.full_name,
           avatar_url: user.avatar_url,
           role: user.role,
+          is_verified: user.is_verified,
           created_at: user.created_at.toISOString(),
           updated_at: user.updated_at.toISOString(),
         },
@@ -82,12 +118,16 @@ router.post(
   }
 );
 
+// @route   POST /api/auth/login
+// @desc    Login user
+// @access  Public
 router.post(
-  '/login-debug',
+  '/login',
   [
     body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
     body('password').notEmpty().withMessage('Password is required'),
   ],
+  throttle('login', (req) => req.body.email),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -97,47 +137,44 @@ router.post(
 
       const { email, password } = req.body;
 
-      // Debug info
-      console.log('Login attempt:', { 
-        email: email, 
-        emailLowercase: email.toLowerCase(),
-        passwordLength: password.length 
-      });
-
       // Find user and include password for comparison
       const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
-      
-      console.log('User found:', !!user);
-      if (user) {
-        console.log('User email in DB:', user.email);
-      }
-
       if (!user) {
-        return res.status(401).json({ 
-          message: 'Invalid email or password',
-          debug: { email, emailLowercase: email.toLowerCase() }
-        });
+        await recordFailure('login', getThrottleSubject(req, email));
+        return res.status(401).json({ message: 'Invalid email or password' });
       }
 
       // Check password
       const isMatch = await user.comparePassword(password);
-      console.log('Password match:', isMatch);
-
       if (!isMatch) {
+        await recordFailure('login', getThrottleSubject(req, email));
         return res.status(401).json({ message: 'Invalid email or password' });
       }
 
-      // Generate token
-      const token = generateToken(user._id.toString());
+      // Users with 2FA get a challenge for POST /api/auth/login/2fa instead of
+      // tokens. Their failure count is only reset once the code is accepted,
+      // so signing in again does not give a fresh set of code guesses.
+      if (user.two_factor_enabled) {
+        return res.json({
+          two_factor_required: true,
+          challenge_token: createLoginChallenge(user._id.toString()),
+        });
+      }
+
+      await recordSuccess('login', getThrottleSubject(req, email));
+
+      // Start a session and issue access + refresh tokens
+      const tokens = await createSession(user._id, getClientInfo(req));
 
       res.json({
-        token,
+        ...tokens,
         user: {
           id: user._id.toString(),
           email: user.email,
           full_name: user.full_name,
           avatar_url: user.avatar_url,
           role: user.role,
+          is_verified: user.is_verified,
           created_at: user.created_at.toISOString(),
           updated_at: user.updated_at.toISOString(),
         },
@@ -149,15 +186,16 @@ router.post(
   }
 );
 
-// @route   POST /api/auth/login
-// @desc    Login user
-// @access  Public
+// @route   POST /api/auth/login/2fa
+// @desc    Second login step for users with two-factor authentication
+// @access  Public (requires challenge token from /login)
 router.post(
-  '/login',
+  '/login/2fa',
   [
-    body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
-    body('password').notEmpty().withMessage('Password is required'),
+    body('challenge_token').notEmpty().withMessage('Challenge token is required'),
+    body('code').isString().notEmpty().withMessage('Authentication code is required'),
   ],
+  throttle('login'),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -165,37 +203,50 @@ router.post(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { email, password } = req.body;
-
-      // Find user and include password for comparison
-      const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
-      if (!user) {
-        return res.status(401).json({ message: 'Invalid email or password' });
+      const { challenge_token, code } = req.body;
+      const user = await openLoginChallenge(challenge_token);
+
+      // Wrong codes count toward the account's login failures as well as the
+      // IP's; once the account locks, its challenges are refused
+      const subject = getThrottleSubject(req, user.email);
+      const lock = await getLockStatus('login', subject);
+      if (lock.locked) {
+        res.set('Retry-After', String(lock.retryAfterSeconds));
+        return res.status(429).json({
+          message: 'Too many attempts. Please try again later.',
+          retry_after: lock.retryAfterSeconds,
+        });
       }
 
-      // Check password
-      const isMatch = await user.comparePassword(password);
-      if (!isMatch) {
-        return res.status(401).json({ message: 'Invalid email or password' });
+      try {
+        await completeLoginChallenge(user, code);
+      } catch (error) {
+        await recordFailure('login', subject);
+        throw error;
       }
+      await recordSuccess('login', subject);
 
-      // Generate token
-      const token = generateToken(user._id.toString());
+      // Start a session and issue access + refresh tokens
+      const tokens = await createSession(user._id, getClientInfo(req));
 
       res.json({
-        token,
+        ...tokens,
         user: {
           id: user._id.toString(),
           email: user.email,
           full_name: user.full_name,
           avatar_url: user.avatar_url,
           role: user.role,
+          is_verified: user.is_verified,
           created_at: user.created_at.toISOString(),
           updated_at: user.updated_at.toISOString(),
         },
       });
     } catch (error: any) {
-      console.error('Login error:', error);
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Two-factor login error:', error);
       res.status(500).json({ message: 'Server error during login' });
     }
   }
@@ -217,6 +268,9 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
       full_name: user.full_name,
       avatar_url: user.avatar_url,
       role: user.role,
+      permissions: getPermissions(user.role),
+      is_verified: user.is_verified,
+      two_factor_enabled: user.two_factor_enabled,
       created_at: user.created_at.toISOString(),
       updated_at: user.updated_at.toISOString(),
     });
@@ -226,6 +280,204 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new access/refresh token pair
+// @access  Public
+router.post(
+  '/refresh',
+  [body('refresh_token').isString().notEmpty().withMessage('Refresh token is required')],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const tokens = await refreshSession(req.body.refresh_token, getClientInfo(req));
+      res.json(tokens);
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Refresh token error:', error);
+      res.status(500).json({ message: 'Server error refreshing session' });
+    }
+  }
+);
+
+// @route   POST /api/auth/logout
+// @desc    Revoke the current session
+// @access  Private
+router.post('/logout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.sessionId!, 'logout', req.user!._id);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the current user's active sessions (devices)
+// @access  Private
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.user!._id);
+
+    res.json(sessions.map((session) => ({
+      id: session._id.toString(),
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      current: session._id.toString() === req.sessionId,
+      created_at: session.created_at.toISOString(),
+      last_used_at: session.last_used_at.toISOString(),
+      expires_at: session.expires_at.toISOString(),
+    })));
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error fetching sessions' });
+  }
+});
+
+// @route   DELETE /api/auth/sessions
+// @desc    Revoke all of the current user's sessions except this one
+// @access  Private
+router.delete('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revokedCount = await revokeAllSessions(req.user!._id, 'user_revoked', req.sessionId);
+    res.json({ message: `Revoked ${revokedCount} session(s)`, revokedCount });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ message: 'Server error revoking sessions' });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Revoke one of the current user's sessions
+// @access  Private
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    const revoked = await revokeSession(req.params.id, 'user_revoked', req.user!._id);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error revoking session' });
+  }
+});
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start two-factor enrollment (returns secret and otpauth URI)
+// @access  Private
+router.post('/2fa/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const enrollment = await beginEnrollment(req.user!._id);
+    res.json(enrollment);
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Server error starting two-factor setup' });
+  }
+});
+
+// @route   POST /api/auth/2fa/confirm
+// @desc    Confirm enrollment with a code and get recovery codes
+// @access  Private
+router.post(
+  '/2fa/confirm',
+  authenticate,
+  [body('code').isString().notEmpty().withMessage('Authentication code is required')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const recoveryCodes = await confirmEnrollment(req.user!._id, req.body.code);
+
+      // Other devices signed in with just a password; make them sign in again
+      await revokeAllSessions(req.user!._id, 'two_factor_enabled', req.sessionId);
+
+      res.json({
+        message: 'Two-factor authentication enabled',
+        recovery_codes: recoveryCodes,
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Two-factor confirm error:', error);
+      res.status(500).json({ message: 'Server error confirming two-factor setup' });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Replace recovery codes (requires a current code)
+// @access  Private
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  [body('code').isString().notEmpty().withMessage('Authentication code is required')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(req.user!._id, req.body.code);
+      res.json({ recovery_codes: recoveryCodes });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Regenerate recovery codes error:', error);
+      res.status(500).json({ message: 'Server error regenerating recovery codes' });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn off two-factor authentication
+// @access  Private
+router.post(
+  '/2fa/disable',
+  authenticate,
+  [
+    body('password').notEmpty().withMessage('Password is required'),
+    body('code').isString().notEmpty().withMessage('Authentication code is required'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      await disableTwoFactor(req.user!._id, req.body.password, req.body.code);
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({ message: 'Server error disabling two-factor authentication' });
+    }
+  }
+);
+
 // @route   PATCH /api/auth/profile
 // @desc    Update user profile (name, email)
 // @access  Private
@@ -259,12 +511,17 @@ router.patch(
       }
 
       // Check if email is being changed and if it's already taken
+      let verificationToken: string | undefined;
       if (email && email !== user.email) {
         const existingUser = await User.findOne({ email: email.toLowerCase() });
         if (existingUser) {
           return res.status(400).json({ message: 'Email is already in use' });
         }
         user.email = email.toLowerCase();
+
+        // The new address has to be verified again
+        user.is_verified = false;
+        verificationToken = issueVerificationToken(user);
       }
 
       if (full_name) {
@@ -273,12 +530,20 @@ router.patch(
 
       await user.save();
 
+      if (verificationToken) {
+        await queueMail(user.email, 'email_verification', {
+          full_name: user.full_name,
+          verification_url: getVerificationUrl(verificationToken),
+        });
+      }
+
       res.json({
         id: user._id.toString(),
         email: user.email,
         full_name: user.full_name,
         avatar_url: user.avatar_url,
         role: user.role,
+        is_verified: user.is_verified,
         created_at: user.created_at.toISOString(),
         updated_at: user.updated_at.toISOString(),
       });
@@ -325,7 +590,11 @@ router.patch(
       user.password = newPassword;
       await user.save();
 
-      res.json({ message: 'Password updated successfully' });
+      // Sign out every device, then give this one a fresh session
+      await revokeAllSessions(user._id, 'password_change');
+      const tokens = await createSession(user._id, getClientInfo(req));
+
+      res.json({ message: 'Password updated successfully', ...tokens });
     } catch (error: any) {
       console.error('Update password error:', error);
       res.status(500).json({ message: 'Server error updating password' });
@@ -333,12 +602,87 @@ router.patch(
   }
 );
 
+// @route   POST /api/auth/verify-email
+// @desc    Verify email address with token
+// @access  Public
+router.post(
+  '/verify-email',
+  [body('token').notEmpty().withMessage('Verification token is required')],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const tokenHash = crypto.createHash('sha256').update(req.body.token).digest('hex');
+
+      const user = await User.findOne({
+        email_verification_token: tokenHash,
+        email_verification_expires: { $gt: new Date() },
+      });
+
+      if (!user) {
+        return res.status(400).json({ message: 'Invalid or expired verification token' });
+      }
+
+      user.is_verified = true;
+      user.email_verification_token = undefined;
+      user.email_verification_expires = undefined;
+      await user.save();
+
+      res.json({ message: 'Email verified successfully' });
+    } catch (error: any) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ message: 'Server error verifying email' });
+    }
+  }
+);
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new email verification link
+// @access  Public
+router.post(
+  '/resend-verification',
+  [body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email')],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const genericMessage = 'If an unverified account with that email exists, a verification link has been sent.';
+
+      const user = await User.findOne({ email: req.body.email.toLowerCase() });
+      if (!user || user.is_verified) {
+        // Don't reveal if user exists for security
+        return res.json({ message: genericMessage });
+      }
+
+      const verificationToken = issueVerificationToken(user);
+      await user.save();
+
+      await queueMail(user.email, 'email_verification', {
+        full_name: user.full_name,
+        verification_url: getVerificationUrl(verificationToken),
+      });
+
+      res.json({ message: genericMessage });
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ message: 'Server error resending verification email' });
+    }
+  }
+);
+
 // @route   POST /api/auth/forgot-password
 // @desc    Request password reset
 // @access  Public
 router.post(
   '/forgot-password',
   [body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email')],
+  throttle('forgot_password', (req) => req.body.email),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -348,6 +692,10 @@ router.post(
 
       const { email } = req.body;
 
+      // Every request counts: we can't tell a legitimate one from abuse, and
+      // answering the same way whether or not the account exists is required
+      await recordFailure('forgot_password', getThrottleSubject(req, email));
+
       const user = await User.findOne({ email: email.toLowerCase() });
       if (!user) {
         // Don't reveal if user exists for security
@@ -365,20 +713,14 @@ router.post(
       user.reset_password_expires = new Date(Date.now() + 3600000); // 1 hour
       await user.save();
 
-      // In production, send email with reset link
-      // For now, we'll return the token (only for development)
-      // In production, remove this and send email instead
       const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password?token=${resetToken}`;
-
-      console.log('Password reset token generated:');
-      console.log(`Reset URL: ${resetUrl}`);
-      console.log('⚠️  In production, send this via email instead of logging!');
+      await queueMail(user.email, 'password_reset', {
+        full_name: user.full_name,
+        reset_url: resetUrl,
+      });
 
       res.json({
         message: 'If an account with that email exists, a password reset link has been sent.',
-        // Remove this in production - only for development
-        resetToken: process.env.NODE_ENV === 'development' ? resetToken : undefined,
-        resetUrl: process.env.NODE_ENV === 'development' ? resetUrl : undefined,
       });
     } catch (error: any) {
       console.error('Forgot password error:', error);
@@ -398,6 +740,7 @@ router.post(
       .isLength({ min: 6 })
       .withMessage('Password must be at least 6 characters'),
   ],
+  throttle('reset_password'),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -417,6 +760,7 @@ router.post(
       }).select('+password');
 
       if (!user) {
+        await recordFailure('reset_password', getThrottleSubject(req));
         return res.status(400).json({ message: 'Invalid or expired reset token' });
       }
 
@@ -426,6 +770,9 @@ router.post(
       user.reset_password_expires = undefined;
       await user.save();
 
+      // Sign out every device that used the old password
+      await revokeAllSessions(user._id, 'password_reset');
+
       res.json({
         message: 'Password has been reset successfully. You can now login with your new password.',
       });
@@ -436,79 +783,6 @@ router.post(
   }
 );
 
-// @route   POST /api/auth/reset-admin-password
-// @desc    Temporarily reset admin password (REMOVE IN PRODUCTION)
-// @access  Public (TEMPORARY DEBUG)
-router.post('/reset-admin-password', async (req: Request, res: Response) => {
-  try {
-    const { email, newPassword } = req.body;
-    
-    // Find admin user
-    const adminUser = await User.findOne({ role: 'admin' });
-    if (!adminUser) {
-      return res.status(404).json({ message: 'No admin user found' });
-    }
-
-    // Update password (will be automatically hashed by pre-save hook)
-    adminUser.password = newPassword;
-    await adminUser.save();
-
-    // Generate new token
-    const token = generateToken(adminUser._id.toString());
-
-    res.json({
-      message: 'Admin password reset successfully',
-      token,
-      user: {
-        id: adminUser._id.toString(),
-        email: adminUser.email,
-        full_name: adminUser.full_name,
-        role: adminUser.role,
-      }
-    });
-  } catch (error: any) {
-    console.error('Reset admin password error:', error);
-    res.status(500).json({ message: 'Server error' });
-  }
-});
-
-// @route   GET /api/auth/debug-admins
-// @desc    Debug endpoint to check admin users (TEMPORARY)
-// @access  Public (REMOVE IN PRODUCTION)
-router.get('/debug-admins', async (req: Request, res: Response) => {
-  try {
-    console.log('=== DEBUG ADMINS ===');
-    console.log('MongoDB connected:', mongoose.connection.readyState === 1 ? 'YES' : 'NO');
-    console.log('Database name:', mongoose.connection.name);
-    
-    const adminUsers = await User.find({ role: 'admin' }).select('email full_name role created_at');
-    const allUsersCount = await User.countDocuments();
-    
-    console.log('Total users:', allUsersCount);
-    console.log('Admin users found:', adminUsers.length);
-    
-    res.json({
-      message: 'Admin users found',
-      database: {
-        connected: mongoose.connection.readyState === 1,
-        name: mongoose.connection.name,
-        totalUsers: allUsersCount,
-        adminCount: adminUsers.length
-      },
-      users: adminUsers.map(user => ({
-        id: user._id,
-        email: user.email,
-        full_name: user.full_name,
-        role: user.role,
-        created_at: user.created_at
-      }))
-    });
-  } catch (error: any) {
-    console.error('Debug admin error:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
-  }
-});
-
 // @route   POST /api/auth/create-first-admin
 // @desc    Create the first admin user (only if no admin exists)
 // @access  Public (but only works if no admin exists)
@@ -569,11 +843,11 @@ router.post(
 
       console.log('Admin created successfully:', { email: user.email, id: user._id });
 
-      // Generate token for automatic login
-      const token = generateToken(user._id.toString());
+      // Start a session for automatic login
+      const tokens = await createSession(user._id, getClientInfo(req));
 
       res.status(201).json({
-        token,
+        ...tokens,
         message: 'Admin user created successfully!',
         user: {
           id: user._id.toString(),
@@ -581,6 +855,7 @@ router.post(
           full_name: user.full_name,
           avatar_url: user.avatar_url,
           role: user.role,
+          is_verified: user.is_verified,
           created_at: user.created_at.toISOString(),
           updated_at: user.updated_at.toISOString(),
         },
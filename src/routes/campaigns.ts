@@ -0,0 +1,141 @@
+import express, { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import Campaign, { PUBLIC_CAMPAIGN_STATUSES } from '../models/Campaign';
+import {
+  formatCampaign,
+  getCampaignProgress,
+  getCampaignsProgress,
+  openCampaignCover,
+} from '../services/campaignService';
+import { listReachedMilestones } from '../services/milestoneService';
+
+const router = express.Router();
+
+// Drafts and archived campaigns are never public
+const findPublicCampaign = (slug: string) =>
+  Campaign.findOne({ slug: slug.toLowerCase(), status: { $in: PUBLIC_CAMPAIGN_STATUSES } }).lean();
+
+// @route   GET /api/campaigns
+// @desc    List public campaigns with their progress
+// @access  Public
+router.get(
+  '/',
+  [
+    query('status')
+      .optional()
+      .isIn(PUBLIC_CAMPAIGN_STATUSES)
+      .withMessage('Invalid status'),
+  ],
+  async (req: express.Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const campaigns = await Campaign.find({
+        status: req.query.status || { $in: PUBLIC_CAMPAIGN_STATUSES },
+      })
+        .sort({ start_date: -1 })
+        .lean();
+      const progress = await getCampaignsProgress(campaigns);
+
+      res.json(campaigns.map((campaign) => formatCampaign(campaign, progress.get(campaign._id.toString()))));
+    } catch (error: any) {
+      console.error('Get campaigns error:', error);
+      res.status(500).json({ message: 'Server error fetching campaigns' });
+    }
+  }
+);
+
+// @route   GET /api/campaigns/:slug
+// @desc    Get a campaign with its progress
+// @access  Public
+router.get('/:slug', async (req: express.Request, res: Response) => {
+  try {
+    const campaign = await findPublicCampaign(req.params.slug);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    res.json(formatCampaign(campaign, await getCampaignProgress(campaign)));
+  } catch (error: any) {
+    console.error('Get campaign error:', error);
+    res.status(500).json({ message: 'Server error fetching campaign' });
+  }
+});
+
+// @route   GET /api/campaigns/:slug/progress
+// @desc    Amount raised, percent of target, supporters and days left
+// @access  Public
+router.get('/:slug/progress', async (req: express.Request, res: Response) => {
+  try {
+    const campaign = await findPublicCampaign(req.params.slug);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    res.json(await getCampaignProgress(campaign));
+  } catch (error: any) {
+    console.error('Get campaign progress error:', error);
+    res.status(500).json({ message: 'Server error fetching campaign progress' });
+  }
+});
+
+// @route   GET /api/campaigns/:slug/milestones
+// @desc    The campaign's milestones and when each was reached
+// @access  Public
+router.get('/:slug/milestones', async (req: express.Request, res: Response) => {
+  try {
+    const campaign = await findPublicCampaign(req.params.slug);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    const reached = new Map(
+      (await listReachedMilestones('campaign', campaign._id)).map((m) => [m.percent, m])
+    );
+    // Milestones reached before the list was changed stay in the history
+    const percents = [...new Set([...(campaign.milestones || []), ...reached.keys()])].sort((a, b) => a - b);
+
+    res.json(percents.map((percent) => ({
+      percent,
+      amount: Math.round(campaign.target_amount * percent) / 100,
+      reached: reached.has(percent),
+      reached_at: reached.get(percent)?.reached_at.toISOString(),
+    })));
+  } catch (error: any) {
+    console.error('Get campaign milestones error:', error);
+    res.status(500).json({ message: 'Server error fetching campaign milestones' });
+  }
+});
+
+// @route   GET /api/campaigns/:slug/cover
+// @desc    Campaign cover image
+// @access  Public
+router.get('/:slug/cover', async (req: express.Request, res: Response) => {
+  try {
+    const campaign = await findPublicCampaign(req.params.slug);
+    const file = campaign?.cover_image ? await openCampaignCover(campaign.cover_image) : null;
+    if (!file) {
+      return res.status(404).json({ message: 'Cover image not found' });
+    }
+
+    res.setHeader('Content-Type', file.content_type || 'application/octet-stream');
+    if (file.size !== undefined) {
+      res.setHeader('Content-Length', file.size);
+    }
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    file.body.on('error', (error) => {
+      console.error('Stream campaign cover error:', error);
+      res.destroy(error);
+    });
+    file.body.pipe(res);
+  } catch (error: any) {
+    console.error('Get campaign cover error:', error);
+    res.status(500).json({ message: 'Server error fetching cover image' });
+  }
+});
+
+export default router;
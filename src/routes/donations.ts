@@ -1,103 +1,146 @@
 import express, { Response } from 'express';
+import mongoose from 'mongoose';
 import { body, validationResult, query } from 'express-validator';
-import Donation from '../models/Donation';
+import Donation, { DONATION_STATUSES, RECEIVED_STATUSES } from '../models/Donation';
 import User from '../models/User';
 import CommunicationMethod from '../models/CommunicationMethod';
 import PaymentMethod from '../models/PaymentMethod';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { upload } from '../middleware/upload';
+import DonationReason from '../models/DonationReason';
+import { DEFAULT_CURRENCY } from '../models/Currency';
+import Pledge from '../models/Pledge';
+import {
+  authenticate,
+  authenticateWith,
+  AuthRequest,
+  requireAdminTwoFactor,
+  requirePermission,
+} from '../middleware/auth';
+import { hasPermission } from '../config/permissions';
+import { handleUploadErrors, upload } from '../middleware/upload';
+import { idempotent } from '../middleware/idempotency';
+import {
+  cancelPendingDonation,
+  createDonation,
+  changeDonationStatus,
+  getDonationStats,
+  listDonations,
+  resolveDeclineReason,
+  updatePendingDonation,
+} from '../services/donationService';
+import {
+  AttachmentVariant,
+  createAttachmentUrl,
+  deleteReceipt,
+  openReceipt,
+  saveReceipt,
+  serializeWithAttachmentUrls,
+  verifyAttachmentSignature,
+} from '../services/receiptStorage';
+import {
+  addAttachments,
+  listAttachments,
+  resolveAttachmentStorageKey,
+  serializeAttachment,
+} from '../services/attachmentService';
+import {
+  changePledgeStatus,
+  createPledge,
+  formatPledge,
+  listPledges,
+  updatePledge,
+} from '../services/pledgeService';
+import {
+  getReportingCurrency,
+  inReportingCurrency,
+  listActiveCurrencies,
+  reportingAmountStages,
+} from '../services/currencyService';
+import { loadSensitiveKeys, presentEditHistory, presentPaymentDetails } from '../services/paymentFields';
+import { combineAmountLimits } from '../services/amountLimits';
+import { HttpError, isHttpError } from '../utils/errors';
+import { decryptOptionalField } from '../utils/fieldEncryption';
 
 const router = express.Router();
 
+// Response of POST /api/donations, also rebuilt when an idempotent request
+// is replayed so attachment URLs are signed again and masking is current
+const formatCreatedDonation = async (donationId: string) => {
+  const donation = await Donation.findById(donationId).lean();
+  if (!donation) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const [user, sensitiveKeys] = await Promise.all([
+    User.findById(donation.user_id).select('full_name email avatar_url created_at updated_at').lean(),
+    loadSensitiveKeys([donation.payment_method_id]),
+  ]);
+
+  return {
+    id: donation._id.toString(),
+    user_id: donation.user_id.toString(),
+    amount: donation.amount,
+    currency: donation.currency,
+    status: donation.status,
+    payment_method_id: donation.payment_method_id?.toString(),
+    reason_id: donation.reason_id?.toString(),
+    message: donation.message,
+    is_anonymous: donation.is_anonymous,
+    payment_details: serializeWithAttachmentUrls(
+      donationId,
+      donation.payment_details,
+      sensitiveKeys.get(donation.payment_method_id?.toString() || '')
+    ),
+    created_at: donation.created_at.toISOString(),
+    confirmed_at: donation.confirmed_at?.toISOString(),
+    profiles: user ? {
+      id: user._id.toString(),
+      email: user.email,
+      full_name: user.full_name,
+      avatar_url: user.avatar_url,
+      created_at: user.created_at.toISOString(),
+      updated_at: user.updated_at.toISOString(),
+    } : undefined,
+  };
+};
+
 // @route   POST /api/donations
-// @desc    Create a new donation
-// @access  Private
+// @desc    Create a new donation. Send an Idempotency-Key header to make retries safe.
+// @access  Private (verified email)
 router.post(
   '/',
-  authenticate,
-  upload.single('receipt_image'),
-  [
-    body('amount')
-      .isFloat({ min: 500 })
-      .withMessage('Minimum donation amount is $500'),
-    body('message')
-      .optional()
-      .isLength({ max: 500 })
-      .withMessage('Message cannot exceed 500 characters'),
-    body('is_anonymous')
-      .optional()
-      .isBoolean()
-      .withMessage('is_anonymous must be a boolean'),
-    body('reason_id')
-      .optional()
-      .isMongoId()
-      .withMessage('Invalid reason ID'),
-    body('donation_method')
-      .optional()
-      .isString()
-      .withMessage('Donation method must be a string'),
-  ],
+  authenticateWith({ requireVerified: true }),
+  handleUploadErrors(upload.any()),
+  // Only the donation id is kept; a replay reloads the donation
+  idempotent('donation:create:http', {
+    store: (body) => ({ id: body?.id }),
+    replay: (stored) => formatCreatedDonation(stored.id),
+  }),
   async (req: AuthRequest, res: Response) => {
+    const uploadedFiles = (req.files as Express.Multer.File[] | undefined) || [];
+    const storedKeys: string[] = [];
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ message: errors.array()[0].msg });
+      // Map each upload to the payment field it belongs to. Both "receipt_image"
+      // and "payment_details[receipt_image]" are accepted as field names.
+      const files: Record<string, string> = {};
+      for (const file of uploadedFiles) {
+        const key = file.fieldname.replace(/^payment_details\[(.+)\]$/, '$1');
+        files[key] = (await saveReceipt(file.buffer, key)).key;
+        storedKeys.push(files[key]);
       }
 
-      const { amount, message, is_anonymous, reason_id, payment_method_id, gift_card_code, wallet_address, paypal_email } = req.body;
-      
-      // Handle uploaded file
-      let receiptImageUrl: string | undefined;
-      if (req.file) {
-        // Construct the URL for the uploaded file
-        receiptImageUrl = `/uploads/${req.file.filename}`;
-      }
-
-      const donation = await Donation.create({
-        user_id: req.user!._id,
-        amount,
-        message: message || undefined,
-        is_anonymous: is_anonymous || false,
-        reason_id: reason_id || undefined,
-        payment_method_id: payment_method_id || undefined,
-        gift_card_code: gift_card_code || undefined,
-        receipt_image: receiptImageUrl || undefined,
-        wallet_address: wallet_address || undefined,
-        paypal_email: paypal_email || undefined,
-        status: 'pending',
-      });
+      // Validation and field whitelisting happen in the donation service so
+      // the socket transport behaves the same way
+      const donation = await createDonation(req.user!._id, req.body, { files });
 
-      // Get user info and reason for response
-      const user = await User.findById(donation.user_id).select('full_name email avatar_url created_at updated_at').lean();
-      const populatedDonation = await Donation.findById(donation._id)
-        .populate('reason_id', 'title')
-        .lean();
-
-      res.status(201).json({
-        id: donation._id.toString(),
-        user_id: donation.user_id.toString(),
-        amount: donation.amount,
-        status: donation.status,
-        payment_method_id: donation.payment_method_id?.toString(),
-        reason_id: donation.reason_id?.toString(),
-        message: donation.message,
-        is_anonymous: donation.is_anonymous,
-        gift_card_code: donation.gift_card_code,
-        receipt_image: donation.receipt_image,
-        wallet_address: donation.wallet_address,
-        paypal_email: donation.paypal_email,
-        created_at: donation.created_at.toISOString(),
-        confirmed_at: donation.confirmed_at?.toISOString(),
-        profiles: user ? {
-          id: user._id.toString(),
-          email: user.email,
-          full_name: user.full_name,
-          avatar_url: user.avatar_url,
-          created_at: user.created_at.toISOString(),
-          updated_at: user.updated_at.toISOString(),
-        } : undefined,
-      });
+      res.status(201).json(await formatCreatedDonation(donation._id.toString()));
     } catch (error: any) {
+      // Don't keep uploads for donations that were never created
+      for (const key of storedKeys) {
+        deleteReceipt(key);
+      }
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       console.error('Create donation error:', error);
       res.status(500).json({ message: 'Server error creating donation' });
     }
@@ -105,40 +148,71 @@ router.post(
 );
 
 // @route   GET /api/donations/payment-methods
-// @desc    Get active payment methods for public view
+// @desc    Get active payment methods for public view, with the amount limits
+//          and presets for each accepted currency (for a reason if `reason_id`
+//          is given)
 // @access  Public
-router.get('/payment-methods', async (req: express.Request, res: Response) => {
-  try {
-    const methods = await PaymentMethod.find({ is_active: true })
-      .sort({ order: 1, created_at: -1 })
-      .lean();
+router.get(
+  '/payment-methods',
+  [query('reason_id').optional().isMongoId().withMessage('Invalid reason ID')],
+  async (req: express.Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
 
-    const formattedMethods = methods.map(method => ({
-      id: method._id.toString(),
-      name: method.name,
-      type: method.type,
-      label: method.label,
-      requires_code: method.requires_code,
-      requires_receipt: method.requires_receipt,
-      requires_address: method.requires_address,
-      requires_email: method.requires_email,
-      icon: method.icon,
-      description: method.description,
-      caution_note: method.caution_note,
-      receiving_account: method.receiving_account,
-      has_display_text: method.has_display_text,
-      display_label: method.display_label,
-      display_text: method.display_text,
-      is_active: method.is_active,
-      order: method.order,
-      created_at: method.created_at.toISOString(),
-      updated_at: method.updated_at.toISOString(),
-    }));
+      const [methods, currencies, reason] = await Promise.all([
+        PaymentMethod.find({ is_active: true })
+          .sort({ order: 1, created_at: -1 })
+          .lean(),
+        listActiveCurrencies(),
+        req.query.reason_id
+          ? DonationReason.findOne({ _id: req.query.reason_id, is_active: true }).select('amount_rules').lean()
+          : null,
+      ]);
 
-    res.json(formattedMethods);
+      const formattedMethods = methods.map(method => ({
+        id: method._id.toString(),
+        name: method.name,
+        type: method.type,
+        label: method.label,
+        fields: method.fields || [],
+        icon: method.icon,
+        description: method.description,
+        caution_note: method.caution_note,
+        receiving_account: decryptOptionalField(method.receiving_account),
+        has_display_text: method.has_display_text,
+        display_label: method.display_label,
+        display_text: method.display_text,
+        amount_limits: currencies.map((currency) =>
+          combineAmountLimits(currency, [method.amount_rules, reason?.amount_rules])),
+        is_active: method.is_active,
+        order: method.order,
+        created_at: method.created_at.toISOString(),
+        updated_at: method.updated_at.toISOString(),
+      }));
+
+      res.json(formattedMethods);
+    } catch (error: any) {
+      console.error('Get payment methods error:', error);
+      res.status(500).json({ message: 'Server error fetching payment methods' });
+    }
+  }
+);
+
+// @route   GET /api/donations/currencies
+// @desc    Currencies donations can be made in, with their global limits
+// @access  Public
+router.get('/currencies', async (req: express.Request, res: Response) => {
+  try {
+    res.json({
+      reporting_currency: getReportingCurrency(),
+      currencies: await listActiveCurrencies(),
+    });
   } catch (error: any) {
-    console.error('Get payment methods error:', error);
-    res.status(500).json({ message: 'Server error fetching payment methods' });
+    console.error('Get currencies error:', error);
+    res.status(500).json({ message: 'Server error fetching currencies' });
   }
 });
 
@@ -176,25 +250,48 @@ router.get('/communication-methods', async (req: express.Request, res: Response)
 router.get('/my-stats', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!._id;
-    
-    // Get all user's donations
-    const donations = await Donation.find({ user_id: userId }).lean();
-    
-    // Calculate stats by status
-    const confirmed = donations.filter(d => d.status === 'confirmed' || d.status === 'completed');
-    const pending = donations.filter(d => d.status === 'pending');
-    const cancelled = donations.filter(d => d.status === 'cancelled');
-    
-    const totalContributed = confirmed.reduce((sum, d) => sum + d.amount, 0);
-    const pendingAmount = pending.reduce((sum, d) => sum + d.amount, 0);
-    
+
+    // Totals per status, converted into the reporting currency
+    const byStatus = await Donation.aggregate([
+      {
+        $match: { user_id: userId },
+      },
+      ...reportingAmountStages(),
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          amount: { $sum: inReportingCurrency('$amount') },
+          refunded_amount: { $sum: inReportingCurrency('$refunded_amount') },
+          net_amount: { $sum: '$reporting_amount' },
+        },
+      },
+    ]);
+    const totals = (statuses: string[]) => byStatus
+      .filter((s) => statuses.includes(s._id))
+      .reduce(
+        (sum, s) => ({
+          count: sum.count + s.count,
+          amount: sum.amount + s.amount,
+          refunded_amount: sum.refunded_amount + s.refunded_amount,
+          net_amount: sum.net_amount + s.net_amount,
+        }),
+        { count: 0, amount: 0, refunded_amount: 0, net_amount: 0 }
+      );
+
+    // Received donations count net of anything refunded or reversed
+    const received = totals(RECEIVED_STATUSES);
+
     res.json({
-      total_contributed: totalContributed,
-      pending_amount: pendingAmount,
-      confirmed_count: confirmed.length,
-      pending_count: pending.length,
-      cancelled_count: cancelled.length,
-      total_donations: donations.length,
+      currency: getReportingCurrency(),
+      total_contributed: received.net_amount,
+      pending_amount: totals(['pending']).amount,
+      refunded_amount: received.refunded_amount,
+      confirmed_count: totals(['confirmed', 'completed']).count,
+      pending_count: totals(['pending']).count,
+      cancelled_count: totals(['cancelled']).count,
+      refunded_count: totals(['refunded', 'reversed']).count,
+      total_donations: totals(DONATION_STATUSES).count,
     });
   } catch (error: any) {
     console.error('Get my donation stats error:', error);
@@ -210,22 +307,37 @@ router.get('/my', authenticate, async (req: AuthRequest, res: Response) => {
     const donations = await Donation.find({ user_id: req.user!._id })
       .sort({ created_at: -1 })
       .lean();
+    const sensitiveKeys = await loadSensitiveKeys(donations.map((d) => d.payment_method_id));
 
     const formattedDonations = donations.map((donation) => ({
       id: donation._id.toString(),
       user_id: donation.user_id.toString(),
       amount: donation.amount,
+      currency: donation.currency || DEFAULT_CURRENCY,
       status: donation.status,
       payment_method_id: donation.payment_method_id?.toString(),
       reason_id: donation.reason_id?.toString(),
+      campaign_id: donation.campaign_id?.toString(),
+      pledge_id: donation.pledge_id?.toString(),
       message: donation.message,
       is_anonymous: donation.is_anonymous,
-      gift_card_code: donation.gift_card_code,
-      receipt_image: donation.receipt_image,
-      wallet_address: donation.wallet_address,
-      paypal_email: donation.paypal_email,
+      payment_details: serializeWithAttachmentUrls(
+        donation._id.toString(),
+        donation.payment_details,
+        sensitiveKeys.get(String(donation.payment_method_id))
+      ),
       created_at: donation.created_at.toISOString(),
       confirmed_at: donation.confirmed_at?.toISOString(),
+      decline_reason: donation.status === 'cancelled' ? donation.decline_reason : undefined,
+      refunded_amount: donation.refunded_amount || undefined,
+      refunds: donation.refunds?.length
+        ? donation.refunds.map((refund) => ({
+            type: refund.type,
+            amount: refund.amount,
+            reason: refund.reason,
+            created_at: refund.created_at.toISOString(),
+          }))
+        : undefined,
     }));
 
     res.json(formattedDonations);
@@ -240,35 +352,7 @@ router.get('/my', authenticate, async (req: AuthRequest, res: Response) => {
 // @access  Public
 router.get('/stats', async (req: express.Request, res: Response) => {
   try {
-    const stats = await Donation.aggregate([
-      {
-        $match: {
-          status: { $in: ['confirmed', 'completed'] },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          total_raised: { $sum: '$amount' },
-          total_donations: { $sum: 1 },
-          unique_donors: { $addToSet: '$user_id' },
-        },
-      },
-      {
-        $project: {
-          _id: 0,
-          total_raised: 1,
-          total_donations: 1,
-          total_supporters: { $size: '$unique_donors' },
-        },
-      },
-    ]);
-
-    const result = stats[0] || {
-      total_raised: 0,
-      total_donations: 0,
-      total_supporters: 0,
-    };
+    const result = await getDonationStats();
 
     res.json(result);
   } catch (error: any) {
@@ -307,16 +391,20 @@ router.get(
       const topSupportersRaw = await Donation.aggregate([
         {
           $match: {
-            status: { $in: ['confirmed', 'completed'] },
+            status: { $in: RECEIVED_STATUSES },
           },
         },
+        ...reportingAmountStages(),
         {
           $group: {
             _id: '$user_id',
-            total_amount: { $sum: '$amount' },
+            total_amount: { $sum: '$reporting_amount' },
             is_anonymous: { $first: '$is_anonymous' },
           },
         },
+        {
+          $match: { total_amount: { $gt: 0 } },
+        },
         {
           $sort: { total_amount: -1 },
         },
@@ -356,14 +444,19 @@ router.get(
       const totalCount = await Donation.aggregate([
         {
           $match: {
-            status: { $in: ['confirmed', 'completed'] },
+            status: { $in: RECEIVED_STATUSES },
           },
         },
+        ...reportingAmountStages(),
         {
           $group: {
             _id: '$user_id',
+            total_amount: { $sum: '$reporting_amount' },
           },
         },
+        {
+          $match: { total_amount: { $gt: 0 } },
+        },
         {
           $count: 'total',
         },
@@ -373,6 +466,7 @@ router.get(
       const totalPages = Math.ceil(total / limit);
 
       res.json({
+        currency: getReportingCurrency(),
         supporters: topSupporters,
         pagination: {
           page,
@@ -393,90 +487,482 @@ router.get(
 // @access  Private
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { status, page = 1, limit = 20 } = req.query;
-    const skip = (Number(page) - 1) * Number(limit);
+    const { status, page, limit } = req.query;
+
+    const result = await listDonations({
+      status: status as string | undefined,
+      // Users without donations:read can only see their own donations
+      user_id: hasPermission(req.user!.role, 'donations:read') ? undefined : req.user!._id,
+      page: parseInt(page as string) || 1,
+      limit: parseInt(limit as string) || 20,
+      populate: [{ path: 'user_id', select: 'full_name email avatar_url' }],
+    });
+
+    const sensitiveKeys = await loadSensitiveKeys(result.donations.map((d) => d.payment_method_id));
+
+    res.json({
+      donations: result.donations.map((donation) => {
+        const methodKeys = sensitiveKeys.get(String(donation.payment_method_id));
+        return {
+          id: donation._id.toString(),
+          user_id: donation.user_id,
+          amount: donation.amount,
+          currency: donation.currency || DEFAULT_CURRENCY,
+          status: donation.status,
+          payment_method_id: donation.payment_method_id?.toString(),
+          reason_id: donation.reason_id?.toString(),
+          campaign_id: donation.campaign_id?.toString(),
+          pledge_id: donation.pledge_id?.toString(),
+          message: donation.message,
+          is_anonymous: donation.is_anonymous,
+          payment_details: presentPaymentDetails(donation.payment_details, { sensitiveKeys: methodKeys }),
+          created_at: donation.created_at.toISOString(),
+          confirmed_at: donation.confirmed_at?.toISOString(),
+          completed_at: donation.completed_at?.toISOString(),
+          edit_history: presentEditHistory(donation.edit_history, { sensitiveKeys: methodKeys }),
+          decline_reason: donation.status === 'cancelled' ? donation.decline_reason : undefined,
+          refunded_amount: donation.refunded_amount || undefined,
+        };
+      }),
+      pagination: result.pagination,
+    });
+  } catch (error: any) {
+    console.error('Get donations error:', error);
+    res.status(500).json({ message: 'Server error fetching donations' });
+  }
+});
+
+// ========== Pledges ==========
 
-    const query: any = {};
-    if (status) {
-      query.status = status;
+// @route   GET /api/donations/pledges
+// @desc    Get your recurring donation pledges
+// @access  Private
+router.get('/pledges', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const pledges = await listPledges(req.user!._id);
+    res.json(pledges.map(formatPledge));
+  } catch (error: any) {
+    console.error('Get pledges error:', error);
+    res.status(500).json({ message: 'Server error fetching pledges' });
+  }
+});
+
+// @route   POST /api/donations/pledges
+// @desc    Pledge a weekly or monthly donation. A pending donation is created
+//          on every due date for you to complete.
+// @access  Private (verified email)
+router.post('/pledges', authenticateWith({ requireVerified: true }), async (req: AuthRequest, res: Response) => {
+  try {
+    // Validation happens in the pledge service, the same way as for donations
+    const pledge = await createPledge(req.user!._id, req.body);
+    res.status(201).json(formatPledge(pledge));
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
     }
+    console.error('Create pledge error:', error);
+    res.status(500).json({ message: 'Server error creating pledge' });
+  }
+});
 
-    // Non-admin users can only see their own donations
-    if (req.user!.role !== 'admin') {
-      query.user_id = req.user!._id;
+// @route   GET /api/donations/pledges/:id
+// @desc    Get one of your pledges with the donations created from it
+// @access  Private (owner)
+router.get('/pledges/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const pledge = mongoose.isValidObjectId(req.params.id)
+      ? await Pledge.findOne({ _id: req.params.id, user_id: req.user!._id }).lean()
+      : null;
+    if (!pledge) {
+      return res.status(404).json({ message: 'Pledge not found' });
     }
 
-    const donations = await Donation.find(query)
-      .populate('user_id', 'full_name email avatar_url')
-      .sort({ created_at: -1 })
-      .skip(skip)
-      .limit(Number(limit))
+    const donations = await Donation.find({ pledge_id: pledge._id })
+      .sort({ pledge_due_at: -1 })
+      .limit(24)
+      .select('amount status pledge_due_at created_at')
       .lean();
 
-    const total = await Donation.countDocuments(query);
-
     res.json({
-      donations,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total,
-        totalPages: Math.ceil(total / Number(limit)),
-      },
+      ...formatPledge(pledge),
+      donations: donations.map((donation) => ({
+        id: donation._id.toString(),
+        amount: donation.amount,
+        status: donation.status,
+        due_at: donation.pledge_due_at?.toISOString(),
+        created_at: donation.created_at.toISOString(),
+      })),
     });
   } catch (error: any) {
-    console.error('Get donations error:', error);
-    res.status(500).json({ message: 'Server error fetching donations' });
+    console.error('Get pledge error:', error);
+    res.status(500).json({ message: 'Server error fetching pledge' });
   }
 });
 
-// @route   PATCH /api/donations/:id/status
-// @desc    Update donation status (admin only)
-// @access  Private (Admin)
-router.patch(
-  '/:id/status',
+// @route   PATCH /api/donations/pledges/:id
+// @desc    Change the amount, cadence, next due date or donation details of a pledge
+// @access  Private (owner)
+router.patch('/pledges/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const pledge = await updatePledge(req.params.id, req.user!._id, req.body);
+    res.json(formatPledge(pledge));
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
+    }
+    console.error('Update pledge error:', error);
+    res.status(500).json({ message: 'Server error updating pledge' });
+  }
+});
+
+// @route   POST /api/donations/pledges/:id/pause
+// @route   POST /api/donations/pledges/:id/resume
+// @route   POST /api/donations/pledges/:id/cancel
+// @desc    Pause, resume or cancel a pledge. Donations already created are not affected.
+// @access  Private (owner)
+router.post('/pledges/:id/:action(pause|resume|cancel)', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const action = req.params.action as 'pause' | 'resume' | 'cancel';
+    const pledge = await changePledgeStatus(req.params.id, req.user!._id, action);
+    res.json(formatPledge(pledge));
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
+    }
+    console.error('Change pledge status error:', error);
+    res.status(500).json({ message: 'Server error updating pledge' });
+  }
+});
+
+// Signed attachment URLs stand in for the Authorization header so receipts
+// can be used directly in <img> tags
+const authenticateOrSigned = (req: AuthRequest, res: Response, next: express.NextFunction) => {
+  if (req.query.signature) {
+    return next();
+  }
+  return authenticate(req, res, next);
+};
+
+// @route   POST /api/donations/:id/attachments
+// @desc    Add proof of payment files to your own pending donation
+// @access  Private (owner)
+router.post(
+  '/:id/attachments',
   authenticate,
+  handleUploadErrors(upload.any()),
   [
-    body('status')
-      .isIn(['pending', 'confirmed', 'completed', 'cancelled'])
-      .withMessage('Invalid status'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Description cannot exceed 200 characters'),
   ],
   async (req: AuthRequest, res: Response) => {
     try {
-      // Check if user is admin
-      if (req.user!.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const attachments = await addAttachments(req.params.id, req.user!._id, files, req.body.description);
+
+      res.status(201).json({ attachments: attachments.map(serializeAttachment) });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
       }
+      console.error('Add attachments error:', error);
+      res.status(500).json({ message: 'Server error adding attachments' });
+    }
+  }
+);
+
+// @route   GET /api/donations/:id/attachments
+// @desc    List a donation's attachments with their review status
+// @access  Private (owner or donations:read)
+router.get('/:id/attachments', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Donation not found' });
+    }
+
+    const donation = await Donation.findById(req.params.id).select('user_id').lean();
+    if (
+      !donation ||
+      (donation.user_id.toString() !== req.user!._id.toString() &&
+        !hasPermission(req.user!.role, 'donations:read'))
+    ) {
+      return res.status(404).json({ message: 'Donation not found' });
+    }
+
+    const attachments = await listAttachments(donation._id);
+
+    res.json({ attachments: attachments.map(serializeAttachment) });
+  } catch (error: any) {
+    console.error('Get attachments error:', error);
+    res.status(500).json({ message: 'Server error fetching attachments' });
+  }
+});
+
+// Shared by the original and thumbnail attachment routes
+const sendAttachment = async (req: AuthRequest, res: Response, variant: AttachmentVariant) => {
+  const { id, key } = req.params;
+
+  if (!req.user) {
+    const { expires, signature } = req.query;
+    if (!verifyAttachmentSignature(id, key, variant, String(expires || ''), String(signature || ''))) {
+      return res.status(403).json({ message: 'Invalid or expired link' });
+    }
+  }
+
+  if (!mongoose.isValidObjectId(id)) {
+    return res.status(404).json({ message: 'Attachment not found' });
+  }
+
+  const donation = await Donation.findById(id).select('user_id payment_details').lean();
+  if (!donation) {
+    return res.status(404).json({ message: 'Attachment not found' });
+  }
+
+  if (
+    req.user &&
+    donation.user_id.toString() !== req.user._id.toString() &&
+    !hasPermission(req.user.role, 'donations:read')
+  ) {
+    return res.status(403).json({ message: 'Not authorized to view this attachment' });
+  }
+
+  const storageKey = await resolveAttachmentStorageKey(donation, key);
+  if (!storageKey) {
+    return res.status(404).json({ message: 'Attachment not found' });
+  }
+
+  const file = await openReceipt(storageKey, variant);
+  if (!file) {
+    return res.status(404).json({ message: 'Attachment not found' });
+  }
+
+  res.setHeader('Content-Type', file.content_type || 'application/octet-stream');
+  if (file.size !== undefined) {
+    res.setHeader('Content-Length', file.size);
+  }
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  file.body.on('error', (error) => {
+    console.error('Stream attachment error:', error);
+    res.destroy(error);
+  });
+  file.body.pipe(res);
+};
+
+// @route   GET /api/donations/:id/attachments/:key
+// @desc    Download a payment attachment (e.g. receipt image)
+// @access  Private (owner or donations:read) or signed URL
+router.get('/:id/attachments/:key', authenticateOrSigned, async (req: AuthRequest, res: Response) => {
+  try {
+    await sendAttachment(req, res, 'original');
+  } catch (error: any) {
+    console.error('Get attachment error:', error);
+    res.status(500).json({ message: 'Server error fetching attachment' });
+  }
+});
+
+// @route   GET /api/donations/:id/attachments/:key/thumbnail
+// @desc    Download the thumbnail of an image attachment
+// @access  Private (owner or donations:read) or signed URL
+router.get('/:id/attachments/:key/thumbnail', authenticateOrSigned, async (req: AuthRequest, res: Response) => {
+  try {
+    await sendAttachment(req, res, 'thumbnail');
+  } catch (error: any) {
+    console.error('Get attachment thumbnail error:', error);
+    res.status(500).json({ message: 'Server error fetching attachment' });
+  }
+});
+
+// @route   GET /api/donations/:id/attachments/:key/url
+// @desc    Get a short-lived signed URL for a payment attachment
+// @access  Private (owner or donations:read)
+router.get('/:id/attachments/:key/url', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, key } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const donation = await Donation.findById(id).select('user_id payment_details').lean();
+    if (!donation) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    if (
+      donation.user_id.toString() !== req.user!._id.toString() &&
+      !hasPermission(req.user!.role, 'donations:read')
+    ) {
+      return res.status(403).json({ message: 'Not authorized to view this attachment' });
+    }
+
+    if (!(await resolveAttachmentStorageKey(donation, key))) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    res.json(createAttachmentUrl(id, key));
+  } catch (error: any) {
+    console.error('Get attachment URL error:', error);
+    res.status(500).json({ message: 'Server error creating attachment URL' });
+  }
+});
 
+// @route   PATCH /api/donations/:id
+// @desc    Edit your own donation while it is pending
+// @access  Private (owner)
+router.patch(
+  '/:id',
+  authenticate,
+  handleUploadErrors(upload.any()),
+  async (req: AuthRequest, res: Response) => {
+    const uploadedFiles = (req.files as Express.Multer.File[] | undefined) || [];
+    const storedKeys: string[] = [];
+    try {
+      // Replacement files for the payment method's file fields, mapped the
+      // same way as on create
+      const files: Record<string, string> = {};
+      for (const file of uploadedFiles) {
+        const key = file.fieldname.replace(/^payment_details\[(.+)\]$/, '$1');
+        files[key] = (await saveReceipt(file.buffer, key)).key;
+        storedKeys.push(files[key]);
+      }
+
+      const { donation, replacedFiles } = await updatePendingDonation(
+        req.params.id,
+        req.user!._id,
+        req.body,
+        { files }
+      );
+
+      // Files no longer referenced by the donation
+      for (const key of replacedFiles) {
+        deleteReceipt(key);
+      }
+      const sensitiveKeys = (await loadSensitiveKeys([donation.payment_method_id])).get(
+        String(donation.payment_method_id)
+      );
+
+      res.json({
+        id: donation._id.toString(),
+        user_id: donation.user_id.toString(),
+        amount: donation.amount,
+        currency: donation.currency,
+        status: donation.status,
+        payment_method_id: donation.payment_method_id?.toString(),
+        reason_id: donation.reason_id?.toString(),
+        message: donation.message,
+        is_anonymous: donation.is_anonymous,
+        payment_details: serializeWithAttachmentUrls(donation._id.toString(), donation.payment_details, sensitiveKeys),
+        created_at: donation.created_at.toISOString(),
+        edit_history: presentEditHistory(donation.edit_history, { sensitiveKeys }),
+      });
+    } catch (error: any) {
+      for (const key of storedKeys) {
+        deleteReceipt(key);
+      }
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error('Edit donation error:', error);
+      res.status(500).json({ message: 'Server error updating donation' });
+    }
+  }
+);
+
+// @route   POST /api/donations/:id/cancel
+// @desc    Cancel your own donation while it is pending
+// @access  Private (owner)
+router.post(
+  '/:id/cancel',
+  authenticate,
+  [
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      const { status } = req.body;
-      const donation = await Donation.findById(req.params.id);
+      const donation = await cancelPendingDonation(req.params.id, req.user!._id, req.body.reason || undefined);
 
-      if (!donation) {
-        return res.status(404).json({ message: 'Donation not found' });
+      res.json({
+        id: donation._id.toString(),
+        status: donation.status,
+        created_at: donation.created_at.toISOString(),
+      });
+    } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
       }
+      console.error('Cancel donation error:', error);
+      res.status(500).json({ message: 'Server error cancelling donation' });
+    }
+  }
+);
 
-      donation.status = status;
-      if (status === 'confirmed' && !donation.confirmed_at) {
-        donation.confirmed_at = new Date();
-      }
-      if (status === 'completed' && !donation.completed_at) {
-        donation.completed_at = new Date();
+// @route   PATCH /api/donations/:id/status
+// @desc    Update donation status (admin only)
+// @access  Private (donations:review)
+router.patch(
+  '/:id/status',
+  authenticate,
+  requirePermission('donations:review'),
+  requireAdminTwoFactor,
+  [
+    body('status')
+      .isIn(DONATION_STATUSES)
+      .withMessage('Invalid status'),
+    body('reason')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+    body('decline_reason_id')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid decline reason'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      await donation.save();
+      const { status, reason, decline_reason_id } = req.body;
+      const decline = status === 'cancelled'
+        ? await resolveDeclineReason(decline_reason_id, reason)
+        : undefined;
+
+      const donation = await changeDonationStatus(req.params.id, status, {
+        actor: req.user!._id,
+        reason: decline ? decline.message : reason,
+        decline,
+      });
 
       res.json({
         id: donation._id,
         status: donation.status,
         confirmed_at: donation.confirmed_at,
         completed_at: donation.completed_at,
+        decline_reason: donation.decline_reason,
       });
     } catch (error: any) {
+      if (isHttpError(error)) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       console.error('Update donation status error:', error);
       res.status(500).json({ message: 'Server error updating donation' });
     }
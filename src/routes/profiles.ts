@@ -2,6 +2,7 @@ import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { hasPermission } from '../config/permissions';
 
 const router = express.Router();
 
@@ -53,10 +54,10 @@ router.patch(
         return res.status(400).json({ message: errors.array()[0].msg });
       }
 
-      // Check if user is updating their own profile or is admin
+      // Check if user is updating their own profile or may edit users
       if (
         req.user!._id.toString() !== req.params.id &&
-        req.user!.role !== 'admin'
+        !hasPermission(req.user!.role, 'users:write')
       ) {
         return res.status(403).json({ message: 'Not authorized to update this profile' });
       }
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import ExchangeRate from '../models/ExchangeRate';
+import { CURRENCY_CODE_REGEX } from '../models/Currency';
+import { getReportingCurrency } from '../services/currencyService';
+
+dotenv.config();
+
+// Loads exchange rates from a CSV file, e.g. an export from a bank or rates
+// provider:
+//
+//   currency,rate,effective_at[,base_currency]
+//   EUR,1.08,2025-01-01
+//   KRW,0.00072,2025-01-01T00:00:00Z
+//
+// `rate` is what one unit of `currency` is worth in `base_currency`, which
+// defaults to REPORTING_CURRENCY. Rows are upserted on (base, currency,
+// effective_at), so importing the same file twice changes nothing.
+//
+//   yarn import-fx-rates rates.csv
+
+interface RateRow {
+  currency: string;
+  base_currency: string;
+  rate: number;
+  effective_at: Date;
+}
+
+const parseRows = (csv: string): { rows: RateRow[]; skipped: string[] } => {
+  const lines = csv.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+  const header = lines.shift()?.toLowerCase().split(',').map((h) => h.trim()) || [];
+  const column = (name: string) => header.indexOf(name);
+  if (column('currency') < 0 || column('rate') < 0 || column('effective_at') < 0) {
+    throw new Error('CSV header must include currency, rate and effective_at');
+  }
+
+  const rows: RateRow[] = [];
+  const skipped: string[] = [];
+  for (const line of lines) {
+    const cells = line.split(',').map((cell) => cell.trim());
+    const row = {
+      currency: cells[column('currency')]?.toUpperCase(),
+      base_currency: (column('base_currency') >= 0 && cells[column('base_currency')]?.toUpperCase()) || getReportingCurrency(),
+      rate: Number(cells[column('rate')]),
+      effective_at: new Date(cells[column('effective_at')]),
+    };
+
+    if (
+      !CURRENCY_CODE_REGEX.test(row.currency || '') ||
+      !CURRENCY_CODE_REGEX.test(row.base_currency) ||
+      row.currency === row.base_currency ||
+      !(row.rate > 0) ||
+      Number.isNaN(row.effective_at.getTime())
+    ) {
+      skipped.push(line);
+      continue;
+    }
+    rows.push(row);
+  }
+
+  return { rows, skipped };
+};
+
+const importExchangeRates = async () => {
+  try {
+    const file = process.argv[2];
+    if (!file) {
+      throw new Error('Usage: yarn import-fx-rates <file.csv>');
+    }
+
+    const { rows, skipped } = parseRows(fs.readFileSync(file, 'utf8'));
+    for (const line of skipped) {
+      console.warn(`⚠️  Skipping invalid row: ${line}`);
+    }
+
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    if (rows.length > 0) {
+      const result = await ExchangeRate.bulkWrite(
+        rows.map((row) => ({
+          updateOne: {
+            filter: { base_currency: row.base_currency, currency: row.currency, effective_at: row.effective_at },
+            update: { $set: { rate: row.rate, source: 'import' } },
+            upsert: true,
+          },
+        }))
+      );
+      console.log(`✅ Imported ${rows.length} rate(s): ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+    } else {
+      console.log('ℹ️  No rates to import');
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error importing exchange rates:', error.message);
+    process.exit(1);
+  }
+};
+
+importExchangeRates();
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User';
+import ActivityLog from '../models/ActivityLog';
+
+dotenv.config();
+
+// Gives an existing account the superadmin role. Only superadmins can manage
+// admin accounts through the API, so the first one is set up here.
+//
+//   yarn make-superadmin <email>
+
+const email = process.argv[2]?.toLowerCase();
+
+const makeSuperadmin = async () => {
+  try {
+    if (!email) {
+      throw new Error('Usage: yarn make-superadmin <email>');
+    }
+
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      throw new Error(`No user with email ${email}`);
+    }
+
+    const previousRole = user.role;
+    user.role = 'superadmin';
+    await user.save();
+
+    await ActivityLog.create({
+      user_id: user._id,
+      action: 'UPDATE_USER_ROLE',
+      resource_type: 'user',
+      resource_id: user._id,
+      details: { from: previousRole, to: 'superadmin', source: 'script' },
+    });
+
+    console.log(`✅ ${email} is now a superadmin (was ${previousRole})`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error making superadmin:', error.message);
+    process.exit(1);
+  }
+};
+
+makeSuperadmin();
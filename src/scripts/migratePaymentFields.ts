@@ -0,0 +1,172 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import PaymentMethod, { IPaymentMethodField } from '../models/PaymentMethod';
+import Donation, { IPaymentDetail } from '../models/Donation';
+
+dotenv.config();
+
+// Converts the old requires_* booleans on payment methods into field lists,
+// and moves the fixed payment columns on donations into payment_details.
+// Also marks legacy sensitive fields, and donation values saved for any
+// sensitive field, as sensitive. Safe to run more than once: already-migrated
+// documents are skipped.
+
+const LEGACY_FIELDS: {
+  flag: string;
+  field: IPaymentMethodField;
+}[] = [
+  {
+    flag: 'requires_code',
+    field: { key: 'gift_card_code', label: 'Gift card code', type: 'text', required: true, max_length: 100, sensitive: true },
+  },
+  {
+    flag: 'requires_receipt',
+    field: { key: 'receipt_image', label: 'Receipt image', type: 'file', required: true },
+  },
+  {
+    flag: 'requires_address',
+    field: { key: 'wallet_address', label: 'Wallet address', type: 'text', required: true, max_length: 500 },
+  },
+  {
+    flag: 'requires_email',
+    field: { key: 'paypal_email', label: 'PayPal email', type: 'email', required: true, max_length: 255 },
+  },
+];
+
+const migratePaymentMethods = async (): Promise<number> => {
+  const methods = await PaymentMethod.collection
+    .find({
+      $or: LEGACY_FIELDS.map(({ flag }) => ({ [flag]: { $exists: true } })),
+    })
+    .toArray();
+
+  for (const method of methods) {
+    const existing: IPaymentMethodField[] = method.fields || [];
+    const fields = [...existing];
+
+    for (const { flag, field } of LEGACY_FIELDS) {
+      if (method[flag] === true && !fields.some((f) => f.key === field.key)) {
+        fields.push(field);
+      }
+    }
+
+    await PaymentMethod.collection.updateOne(
+      { _id: method._id },
+      {
+        $set: { fields },
+        $unset: Object.fromEntries(LEGACY_FIELDS.map(({ flag }) => [flag, ''])),
+      }
+    );
+  }
+
+  return methods.length;
+};
+
+const migrateDonations = async (): Promise<number> => {
+  const legacyKeys = LEGACY_FIELDS.map(({ field }) => field.key);
+  const donations = await Donation.collection
+    .find({
+      $or: legacyKeys.map((key) => ({ [key]: { $exists: true } })),
+    })
+    .toArray();
+
+  for (const donation of donations) {
+    const details: Record<string, IPaymentDetail> = { ...(donation.payment_details || {}) };
+
+    for (const { field } of LEGACY_FIELDS) {
+      const value = donation[field.key];
+      if (value !== undefined && value !== null && value !== '' && !details[field.key]) {
+        details[field.key] = {
+          label: field.label,
+          type: field.type,
+          value,
+          ...(field.sensitive && { sensitive: true }),
+        };
+      }
+    }
+
+    const update: Record<string, any> = {
+      $unset: Object.fromEntries(legacyKeys.map((key) => [key, ''])),
+    };
+    if (Object.keys(details).length > 0) {
+      update.$set = { payment_details: details };
+    }
+
+    await Donation.collection.updateOne({ _id: donation._id }, update);
+  }
+
+  return donations.length;
+};
+
+// Databases migrated before field definitions carried `sensitive` have gift
+// card codes stored unflagged, both on the methods and on the donations
+const backfillSensitiveFlags = async (): Promise<{ methods: number; donations: number }> => {
+  let methodCount = 0;
+  for (const { field } of LEGACY_FIELDS.filter(({ field }) => field.sensitive)) {
+    const result = await PaymentMethod.collection.updateMany(
+      { fields: { $elemMatch: { key: field.key, sensitive: { $ne: true } } } },
+      { $set: { 'fields.$[field].sensitive': true } },
+      { arrayFilters: [{ 'field.key': field.key }] }
+    );
+    methodCount += result.modifiedCount;
+  }
+
+  let donationCount = 0;
+  const methods = await PaymentMethod.collection.find({ 'fields.sensitive': true }).toArray();
+  for (const method of methods) {
+    const keys = (method.fields as IPaymentMethodField[]).filter((f) => f.sensitive).map((f) => f.key);
+    for (const key of keys) {
+      const result = await Donation.collection.updateMany(
+        {
+          payment_method_id: method._id,
+          [`payment_details.${key}`]: { $exists: true },
+          [`payment_details.${key}.sensitive`]: { $ne: true },
+        },
+        { $set: { [`payment_details.${key}.sensitive`]: true } }
+      );
+      donationCount += result.modifiedCount;
+    }
+  }
+
+  // Legacy values whose payment method has since been deleted
+  for (const { field } of LEGACY_FIELDS.filter(({ field }) => field.sensitive)) {
+    const result = await Donation.collection.updateMany(
+      {
+        [`payment_details.${field.key}`]: { $exists: true },
+        [`payment_details.${field.key}.sensitive`]: { $ne: true },
+      },
+      { $set: { [`payment_details.${field.key}.sensitive`]: true } }
+    );
+    donationCount += result.modifiedCount;
+  }
+
+  return { methods: methodCount, donations: donationCount };
+};
+
+const migratePaymentFields = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const methodCount = await migratePaymentMethods();
+    console.log(`✅ Migrated ${methodCount} payment method(s) to field lists`);
+
+    const donationCount = await migrateDonations();
+    console.log(`✅ Migrated ${donationCount} donation(s) to payment_details`);
+
+    const flagged = await backfillSensitiveFlags();
+    console.log(`✅ Marked sensitive fields on ${flagged.methods} payment method(s) and ${flagged.donations} donation(s)`);
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error migrating payment fields:', error.message);
+    process.exit(1);
+  }
+};
+
+migratePaymentFields();
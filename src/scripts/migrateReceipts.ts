@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Donation from '../models/Donation';
+import { DEFAULT_LOCAL_DIR, getStorage } from '../storage';
+import { isStorageKey, saveReceipt } from '../services/receiptStorage';
+
+dotenv.config();
+
+// Moves receipts stored as "/uploads/<filename>" (or a bare filename) into
+// the configured FileStorage and replaces the value with the storage key.
+// Safe to run more than once: values that are already keys are skipped.
+//
+//   yarn migrate-receipts [--dry-run] [--delete-local] [--from <dir>]
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const deleteLocal = args.includes('--delete-local');
+const fromIndex = args.indexOf('--from');
+const sourceDir = path.resolve(fromIndex !== -1 && args[fromIndex + 1] ? args[fromIndex + 1] : DEFAULT_LOCAL_DIR);
+
+const migrateReceipts = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+    console.log(`📦 Moving receipts from ${sourceDir} to ${getStorage().name} storage${dryRun ? ' (dry run)' : ''}`);
+
+    const donations = await Donation.collection
+      .find({ payment_details: { $exists: true } })
+      .project({ payment_details: 1 })
+      .toArray();
+
+    let moved = 0;
+    let missing = 0;
+    let rejected = 0;
+
+    for (const donation of donations) {
+      const set: Record<string, string> = {};
+      const movedFiles: string[] = [];
+
+      for (const [key, detail] of Object.entries<any>(donation.payment_details || {})) {
+        if (detail?.type !== 'file' || typeof detail.value !== 'string' || isStorageKey(detail.value)) {
+          continue;
+        }
+
+        const filename = path.basename(detail.value);
+        const localPath = path.join(sourceDir, filename);
+        if (!fs.existsSync(localPath)) {
+          console.warn(`⚠️  Donation ${donation._id}: ${filename} not found, skipping`);
+          missing++;
+          continue;
+        }
+
+        if (dryRun) {
+          console.log(`   Would move ${filename} (donation ${donation._id})`);
+          moved++;
+          continue;
+        }
+
+        // Old uploads go through the same checks and clean-up as new ones
+        try {
+          const saved = await saveReceipt(await fs.promises.readFile(localPath), key);
+          set[`payment_details.${key}.value`] = saved.key;
+          movedFiles.push(localPath);
+          moved++;
+        } catch (error: any) {
+          console.warn(`⚠️  Donation ${donation._id}: ${filename} was rejected (${error.message}), skipping`);
+          rejected++;
+        }
+      }
+
+      if (Object.keys(set).length > 0) {
+        await Donation.collection.updateOne({ _id: donation._id }, { $set: set });
+        if (deleteLocal) {
+          for (const file of movedFiles) {
+            await fs.promises.rm(file, { force: true });
+          }
+        }
+      }
+    }
+
+    console.log(`✅ ${dryRun ? 'Would move' : 'Moved'} ${moved} receipt(s)`);
+    if (missing > 0) {
+      console.log(`⚠️  ${missing} receipt file(s) were missing from ${sourceDir}`);
+    }
+    if (rejected > 0) {
+      console.log(`⚠️  ${rejected} receipt file(s) failed validation and were left in place`);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error migrating receipts:', error.message);
+    process.exit(1);
+  }
+};
+
+migrateReceipts();
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User';
+import ActivityLog from '../models/ActivityLog';
+import { isStaffRole } from '../config/permissions';
+import { revokeAllSessions } from '../services/sessionService';
+
+dotenv.config();
+
+// Offline recovery for a locked-out staff account. Sets a random temporary
+// password, prints it once and ends every session of the account. Two-factor
+// authentication stays on, so the second factor is still needed to log in.
+//
+//   yarn reset-admin-password <email>
+
+const email = process.argv[2]?.toLowerCase();
+
+const resetAdminPassword = async () => {
+  try {
+    if (!email) {
+      throw new Error('Usage: yarn reset-admin-password <email>');
+    }
+
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const user = await User.findOne({ email });
+    if (!user || !isStaffRole(user.role)) {
+      throw new Error(`No staff account with email ${email}`);
+    }
+
+    const password = crypto.randomBytes(12).toString('base64url');
+    user.password = password; // Will be hashed by pre-save hook
+    user.reset_password_token = undefined;
+    user.reset_password_expires = undefined;
+    await user.save();
+
+    const revoked = await revokeAllSessions(user._id, 'password_reset');
+
+    await ActivityLog.create({
+      user_id: user._id,
+      action: 'RESET_PASSWORD',
+      resource_type: 'user',
+      resource_id: user._id,
+      details: { source: 'script', sessions_revoked: revoked },
+    });
+
+    console.log(`✅ Password reset for ${email} (${user.role}); ${revoked} session(s) ended`);
+    console.log(`   Temporary password: ${password}`);
+    console.log('   Change it after logging in with PATCH /api/auth/password');
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error resetting admin password:', error.message);
+    process.exit(1);
+  }
+};
+
+resetAdminPassword();
@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Donation from '../models/Donation';
+import PaymentMethod from '../models/PaymentMethod';
+import EmailJob from '../models/EmailJob';
+import { isEncryptionConfigured, needsReencryption, reencryptField } from '../utils/fieldEncryption';
+
+dotenv.config();
+
+// Re-encrypts payment details (and their edit history), receiving accounts
+// and queued email data with the first key in FIELD_ENCRYPTION_KEYS.
+// Plaintext values written before encryption was enabled are encrypted too. Run after adding a new key; once it finishes
+// the old keys can be removed. Safe to run more than once.
+
+interface DonationRotation {
+  donations: number;
+  historyValues: number; // Payment detail values in edit_history changes
+}
+
+const rotateDonations = async (): Promise<DonationRotation> => {
+  const donations = await Donation.collection
+    .find({ $or: [{ payment_details: { $exists: true } }, { 'edit_history.0': { $exists: true } }] })
+    .project({ payment_details: 1, edit_history: 1 })
+    .toArray();
+
+  const result: DonationRotation = { donations: 0, historyValues: 0 };
+  for (const donation of donations) {
+    const set: Record<string, string> = {};
+    for (const [key, detail] of Object.entries<any>(donation.payment_details || {})) {
+      if (detail?.type !== 'file' && needsReencryption(detail?.value)) {
+        set[`payment_details.${key}.value`] = reencryptField(String(detail.value));
+      }
+    }
+
+    (donation.edit_history || []).forEach((edit: any, editIndex: number) => {
+      (edit?.changes || []).forEach((change: any, changeIndex: number) => {
+        if (!String(change?.field).startsWith('payment_details.')) return;
+        for (const side of ['from', 'to']) {
+          if (needsReencryption(change[side])) {
+            set[`edit_history.${editIndex}.changes.${changeIndex}.${side}`] = reencryptField(String(change[side]));
+            result.historyValues++;
+          }
+        }
+      });
+    });
+
+    if (Object.keys(set).length > 0) {
+      await Donation.collection.updateOne({ _id: donation._id }, { $set: set });
+      result.donations++;
+    }
+  }
+
+  return result;
+};
+
+const rotatePaymentMethods = async (): Promise<number> => {
+  const methods = await PaymentMethod.collection
+    .find({ receiving_account: { $nin: [null, ''] } })
+    .project({ receiving_account: 1 })
+    .toArray();
+
+  let updated = 0;
+  for (const method of methods) {
+    if (needsReencryption(method.receiving_account)) {
+      await PaymentMethod.collection.updateOne(
+        { _id: method._id },
+        { $set: { receiving_account: reencryptField(method.receiving_account) } }
+      );
+      updated++;
+    }
+  }
+
+  return updated;
+};
+
+const rotateEmailJobs = async (): Promise<number> => {
+  const jobs = await EmailJob.collection
+    .find({ data: { $exists: true } })
+    .project({ data: 1 })
+    .toArray();
+
+  let updated = 0;
+  for (const job of jobs) {
+    if (needsReencryption(job.data)) {
+      await EmailJob.collection.updateOne({ _id: job._id }, { $set: { data: reencryptField(job.data) } });
+      updated++;
+    }
+  }
+
+  return updated;
+};
+
+const rotateFieldEncryption = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+    if (!isEncryptionConfigured()) {
+      throw new Error('FIELD_ENCRYPTION_KEYS is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const donationResult = await rotateDonations();
+    console.log(
+      `✅ Re-encrypted payment details on ${donationResult.donations} donation(s), ` +
+      `including ${donationResult.historyValues} edit history value(s)`
+    );
+
+    const methodCount = await rotatePaymentMethods();
+    console.log(`✅ Re-encrypted receiving accounts on ${methodCount} payment method(s)`);
+
+    const jobCount = await rotateEmailJobs();
+    console.log(`✅ Re-encrypted data on ${jobCount} email job(s)`);
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error rotating field encryption:', error.message);
+    process.exit(1);
+  }
+};
+
+rotateFieldEncryption();
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User';
+
+dotenv.config();
+
+// Marks accounts created before email verification existed as verified, so
+// donors who signed up earlier are not blocked from donating. Only accounts
+// that never had a verification link sent are touched, and only those created
+// before the cutoff (default: now). Safe to run more than once.
+//
+//   yarn verify-existing-users [--dry-run] [--before <ISO date>]
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const beforeIndex = args.indexOf('--before');
+const cutoff = beforeIndex !== -1 && args[beforeIndex + 1] ? new Date(args[beforeIndex + 1]) : new Date();
+
+const verifyExistingUsers = async () => {
+  try {
+    if (Number.isNaN(cutoff.getTime())) {
+      throw new Error('--before must be a valid date');
+    }
+
+    const mongoURI = process.env.MONGODB_URI;
+    if (!mongoURI) {
+      throw new Error('MONGODB_URI is not defined');
+    }
+
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const filter = {
+      is_verified: { $ne: true },
+      email_verification_token: null, // Also matches accounts without the field
+      created_at: { $lt: cutoff },
+    };
+
+    if (dryRun) {
+      const count = await User.countDocuments(filter);
+      console.log(`🔍 ${count} user(s) created before ${cutoff.toISOString()} would be marked verified (dry run)`);
+    } else {
+      const result = await User.updateMany(filter, { $set: { is_verified: true } });
+      console.log(`✅ Marked ${result.modifiedCount} user(s) created before ${cutoff.toISOString()} as verified`);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error verifying existing users:', error.message);
+    process.exit(1);
+  }
+};
+
+verifyExistingUsers();
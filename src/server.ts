@@ -8,12 +8,17 @@ import dotenv from 'dotenv';
 import mongoose from 'mongoose';
 import { connectDB } from './config/database';
 import { setupSocketHandlers } from './socket/socketHandlers';
+import { setIO } from './socket/io';
+import { startMailWorker } from './mailer';
+import { assertEncryptionConfigured } from './utils/fieldEncryption';
+import { startPledgeScheduler } from './services/pledgeService';
 
 // Import routes
 import authRoutes from './routes/auth';
 import donationRoutes from './routes/donations';
 import profileRoutes from './routes/profiles';
 import adminRoutes from './routes/admin';
+import campaignRoutes from './routes/campaigns';
 
 // Load environment variables
 dotenv.config({ path: '.env' });
@@ -27,6 +32,11 @@ if (!process.env.MONGODB_URI) {
 const app = express();
 const server = http.createServer(app);
 
+// Behind a reverse proxy, read the client IP from X-Forwarded-For (used for login throttling)
+if (process.env.TRUST_PROXY === 'true') {
+  app.set('trust proxy', 1);
+}
+
 // Get allowed origins from environment or use defaults
 const getAllowedOrigins = () => {
   if (process.env.ALLOWED_ORIGINS) {
@@ -84,8 +94,9 @@ const io = new SocketIOServer(server, {
 // Setup socket handlers
 setupSocketHandlers(io);
 
-// Make io available to routes if needed
+// Make io available to routes and services
 app.set('io', io);
+setIO(io);
 
 // Middleware
 app.use(helmet({
@@ -134,16 +145,13 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+  exposedHeaders: ['Content-Type', 'Authorization', 'Idempotent-Replayed'],
 }));
 app.use(morgan('dev')); // Logging
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve uploaded files
-app.use('/uploads', express.static('uploads'));
-
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -165,6 +173,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/donations', donationRoutes);
 app.use('/api/profiles', profileRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/campaigns', campaignRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -191,6 +200,15 @@ const startServer = async () => {
       console.log('⚠️  Continuing without database connection...\n');
     });
     
+    // Refuse to store sensitive fields unencrypted in production
+    assertEncryptionConfigured();
+
+    // Deliver queued emails in the background
+    startMailWorker();
+
+    // Turn due pledges into pending donations
+    startPledgeScheduler();
+
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import { IAmountRule, MAX_AMOUNT_PRESETS } from '../models/AmountRule';
+import { CURRENCY_CODE_REGEX } from '../models/Currency';
+import DonationReason from '../models/DonationReason';
+import PaymentMethod from '../models/PaymentMethod';
+import { HttpError } from '../utils/errors';
+import { formatMoney } from '../utils/money';
+import { CurrencyRule, resolveCurrency } from './currencyService';
+import { FieldError } from './paymentFields';
+
+// The limits a donation in one currency has to meet
+export interface AmountLimits {
+  currency: string;
+  min_amount: number;
+  max_amount?: number;
+  presets: number[];
+  available: boolean; // False when the levels leave no amount between min and max
+}
+
+export interface AmountContext {
+  currency: string;
+  payment_method_id?: string;
+  reason_id?: string;
+}
+
+const isAmount = (value: any): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Check admin-supplied limits before they are saved. `path` prefixes the
+// field names in the errors, e.g. "amount_rules[0]".
+const validateLimits = (rule: any, path: string): FieldError[] => {
+  const errors: FieldError[] = [];
+  const prefix = path ? `${path}.` : '';
+
+  if (rule.min_amount !== undefined && rule.min_amount !== null && !isAmount(rule.min_amount)) {
+    errors.push({ field: `${prefix}min_amount`, message: 'Minimum amount must be a non-negative number' });
+  }
+  if (rule.max_amount !== undefined && rule.max_amount !== null && !(isAmount(rule.max_amount) && rule.max_amount > 0)) {
+    errors.push({ field: `${prefix}max_amount`, message: 'Maximum amount must be a positive number' });
+  }
+  if (isAmount(rule.min_amount) && isAmount(rule.max_amount) && rule.min_amount > rule.max_amount) {
+    errors.push({ field: `${prefix}max_amount`, message: 'Maximum amount cannot be below the minimum amount' });
+  }
+
+  if (rule.presets !== undefined && rule.presets !== null) {
+    if (
+      !Array.isArray(rule.presets) ||
+      rule.presets.length > MAX_AMOUNT_PRESETS ||
+      rule.presets.some((p: any) => !(isAmount(p) && p > 0))
+    ) {
+      errors.push({
+        field: `${prefix}presets`,
+        message: `Presets must be a list of up to ${MAX_AMOUNT_PRESETS} positive amounts`,
+      });
+    } else if (
+      rule.presets.some((p: number) =>
+        (isAmount(rule.min_amount) && p < rule.min_amount) || (isAmount(rule.max_amount) && p > rule.max_amount))
+    ) {
+      errors.push({ field: `${prefix}presets`, message: 'Presets must be between the minimum and maximum amounts' });
+    }
+  }
+
+  return errors;
+};
+
+// Check the limits set on a currency itself
+export const validateCurrencyLimits = (limits: any): FieldError[] => validateLimits(limits, '');
+
+// Check an `amount_rules` list for a payment method or donation reason.
+// Returns an empty array when the rules are usable.
+export const validateAmountRules = (rules: any): FieldError[] => {
+  if (!Array.isArray(rules)) {
+    return [{ field: 'amount_rules', message: 'Amount rules must be an array' }];
+  }
+
+  const errors: FieldError[] = [];
+  const seen = new Set<string>();
+  rules.forEach((rule: any, index: number) => {
+    const path = `amount_rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push({ field: path, message: 'Amount rule must be an object' });
+      return;
+    }
+
+    const currency = typeof rule.currency === 'string' ? rule.currency.toUpperCase() : '';
+    if (!CURRENCY_CODE_REGEX.test(currency)) {
+      errors.push({ field: `${path}.currency`, message: 'Currency code must be a 3-letter ISO 4217 code' });
+    } else if (seen.has(currency)) {
+      errors.push({ field: `${path}.currency`, message: `Duplicate amount rule for ${currency}` });
+    } else {
+      seen.add(currency);
+    }
+
+    errors.push(...validateLimits(rule, path));
+  });
+
+  return errors;
+};
+
+// Keep only the properties we store for each rule
+export const normalizeAmountRules = (rules: any[]): IAmountRule[] =>
+  rules.map((rule) => ({
+    currency: rule.currency.toUpperCase(),
+    min_amount: isAmount(rule.min_amount) ? rule.min_amount : undefined,
+    max_amount: isAmount(rule.max_amount) ? rule.max_amount : undefined,
+    presets: Array.isArray(rule.presets) && rule.presets.length > 0
+      ? [...new Set<number>(rule.presets)].sort((a, b) => a - b)
+      : undefined,
+  }));
+
+const ruleFor = (rules: IAmountRule[] | undefined, currency: string): IAmountRule | undefined =>
+  rules?.find((rule) => rule.currency === currency);
+
+// Combine the currency's limits with payment method and reason rules, from
+// least to most specific. The strictest minimum and maximum win; presets come
+// from the most specific level that sets any, minus those outside the limits.
+// Levels that are each valid can still conflict (one minimum above another
+// level's maximum); the result is then marked unavailable.
+export const combineAmountLimits = (
+  currency: CurrencyRule,
+  rules: (IAmountRule[] | undefined)[]
+): AmountLimits => {
+  const levels = [currency, ...rules.map((r) => ruleFor(r, currency.code))]
+    .filter((level): level is CurrencyRule | IAmountRule => !!level);
+
+  const min = Math.max(...levels.map((level) => level.min_amount ?? 0));
+  const maxes = levels.map((level) => level.max_amount).filter((max): max is number => max !== undefined);
+  const max = maxes.length > 0 ? Math.min(...maxes) : undefined;
+  const presets = [...levels].reverse().find((level) => level.presets?.length)?.presets || [];
+
+  return {
+    currency: currency.code,
+    min_amount: min,
+    max_amount: max,
+    presets: presets.filter((p) => p >= min && (max === undefined || p <= max)),
+    available: max === undefined || min <= max,
+  };
+};
+
+// Limits for a donation with the given currency, payment method and reason
+export const resolveAmountLimits = async (context: AmountContext): Promise<AmountLimits> => {
+  const [currency, method, reason] = await Promise.all([
+    resolveCurrency(context.currency),
+    context.payment_method_id && mongoose.isValidObjectId(context.payment_method_id)
+      ? PaymentMethod.findById(context.payment_method_id).select('amount_rules').lean()
+      : null,
+    context.reason_id && mongoose.isValidObjectId(context.reason_id)
+      ? DonationReason.findById(context.reason_id).select('amount_rules').lean()
+      : null,
+  ]);
+
+  return combineAmountLimits(currency, [method?.amount_rules, reason?.amount_rules]);
+};
+
+// Check a donation amount against its limits. Throws a 400 HttpError for
+// `field: 'amount'` that includes the limits, with `code: 'NO_VALID_AMOUNT'`
+// when the limits conflict.
+export const checkDonationAmount = async (amount: number, context: AmountContext): Promise<AmountLimits> => {
+  const limits = await resolveAmountLimits(context);
+
+  if (!limits.available) {
+    const message = `No amount can be accepted in ${limits.currency} with this payment method and reason`;
+    throw new HttpError(400, message, {
+      code: 'NO_VALID_AMOUNT',
+      errors: [{ field: 'amount', message }],
+      limits,
+    });
+  }
+
+  let message: string | undefined;
+  if (amount < limits.min_amount) {
+    message = `Minimum donation amount is ${formatMoney(limits.min_amount, limits.currency)}`;
+  } else if (limits.max_amount !== undefined && amount > limits.max_amount) {
+    message = `Maximum donation amount is ${formatMoney(limits.max_amount, limits.currency)}`;
+  }
+  if (message) {
+    throw new HttpError(400, message, { errors: [{ field: 'amount', message }], limits });
+  }
+
+  return limits;
+};
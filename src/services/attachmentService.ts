@@ -0,0 +1,198 @@
+import mongoose from 'mongoose';
+import Donation from '../models/Donation';
+import DonationAttachment, { IDonationAttachment } from '../models/DonationAttachment';
+import { getIO } from '../socket/io';
+import { HttpError } from '../utils/errors';
+import { createAttachmentUrl, deleteReceipt, hasThumbnail, saveReceipt } from './receiptStorage';
+
+const MAX_ATTACHMENTS_PER_DONATION = 10;
+
+export interface AttachmentUpload {
+  buffer: Buffer;
+  originalname: string;
+}
+
+type Id = mongoose.Types.ObjectId | string;
+
+// API view of an attachment with signed download links
+export const serializeAttachment = (attachment: IDonationAttachment | Record<string, any>) => {
+  const donationId = attachment.donation_id.toString();
+  const id = attachment._id.toString();
+
+  return {
+    id,
+    donation_id: donationId,
+    original_name: attachment.original_name,
+    content_type: attachment.content_type,
+    size: attachment.size,
+    description: attachment.description,
+    review_status: attachment.review_status,
+    review_note: attachment.review_note,
+    reviewed_by: attachment.reviewed_by,
+    reviewed_at: attachment.reviewed_at?.toISOString(),
+    url: createAttachmentUrl(donationId, id).url,
+    thumbnail_url: hasThumbnail(attachment.storage_key)
+      ? createAttachmentUrl(donationId, id, 'thumbnail').url
+      : undefined,
+    created_at: attachment.created_at.toISOString(),
+  };
+};
+
+// Donors can add proof of payment to their own donation while it is pending
+export const addAttachments = async (
+  donationId: Id,
+  userId: Id,
+  files: AttachmentUpload[],
+  description?: string
+): Promise<IDonationAttachment[]> => {
+  if (files.length === 0) {
+    throw new HttpError(400, 'Please attach at least one file');
+  }
+
+  const donation = mongoose.isValidObjectId(donationId) ? await Donation.findById(donationId) : null;
+  if (!donation || donation.user_id.toString() !== userId.toString()) {
+    throw new HttpError(404, 'Donation not found');
+  }
+  if (donation.status !== 'pending') {
+    throw new HttpError(409, 'Attachments can only be added while the donation is pending');
+  }
+
+  // Donations from before attachment_count existed start from a count
+  if (donation.attachment_count === undefined) {
+    const existing = await DonationAttachment.countDocuments({ donation_id: donation._id });
+    await Donation.updateOne(
+      { _id: donation._id, attachment_count: { $exists: false } },
+      { $set: { attachment_count: existing } }
+    );
+  }
+
+  // Reserve the slots in one conditional update so concurrent uploads
+  // cannot go over the cap together
+  const reserved = await Donation.updateOne(
+    {
+      _id: donation._id,
+      $expr: { $lte: [{ $add: ['$attachment_count', files.length] }, MAX_ATTACHMENTS_PER_DONATION] },
+    },
+    { $inc: { attachment_count: files.length } }
+  );
+  if (reserved.modifiedCount === 0) {
+    throw new HttpError(400, `A donation can have at most ${MAX_ATTACHMENTS_PER_DONATION} attachments`);
+  }
+
+  const savedKeys: string[] = [];
+  try {
+    const attachments: IDonationAttachment[] = [];
+    for (const file of files) {
+      const saved = await saveReceipt(file.buffer, file.originalname);
+      savedKeys.push(saved.key);
+      attachments.push(new DonationAttachment({
+        donation_id: donation._id,
+        user_id: userId,
+        storage_key: saved.key,
+        original_name: file.originalname,
+        content_type: saved.content_type,
+        size: saved.size,
+        description,
+      }));
+    }
+
+    const created = await DonationAttachment.insertMany(attachments);
+
+    const io = getIO();
+    if (io) {
+      io.to('admin').emit('donation:attachments-added', {
+        donation_id: donation._id.toString(),
+        attachments: created.map(serializeAttachment),
+      });
+    }
+
+    return created;
+  } catch (error) {
+    // Nothing is kept unless every file was accepted
+    for (const key of savedKeys) {
+      deleteReceipt(key);
+    }
+    await Donation.updateOne({ _id: donation._id }, { $inc: { attachment_count: -files.length } })
+      .catch((releaseError) => console.error('Error releasing attachment slots:', releaseError));
+    throw error;
+  }
+};
+
+// Find the stored file behind an attachment reference: either a file field
+// of the donation's payment_details or the id of a DonationAttachment
+export const resolveAttachmentStorageKey = async (
+  donation: { _id: any; payment_details?: any },
+  key: string
+): Promise<string | null> => {
+  const details = donation.payment_details instanceof Map
+    ? Object.fromEntries(donation.payment_details.entries())
+    : donation.payment_details || {};
+  const detail = details[key];
+  if (detail?.type === 'file') {
+    return String(detail.value);
+  }
+
+  if (mongoose.isValidObjectId(key)) {
+    const attachment = await DonationAttachment.findOne({ _id: key, donation_id: donation._id })
+      .select('storage_key')
+      .lean();
+    return attachment?.storage_key || null;
+  }
+
+  return null;
+};
+
+export const listAttachments = async (donationId: Id) =>
+  DonationAttachment.find({ donation_id: donationId }).sort({ created_at: 1 }).lean();
+
+// Attachments for many donations at once, grouped by donation id
+export const listAttachmentsForDonations = async (
+  donationIds: Id[]
+): Promise<Map<string, ReturnType<typeof serializeAttachment>[]>> => {
+  const attachments = await DonationAttachment.find({ donation_id: { $in: donationIds } })
+    .sort({ created_at: 1 })
+    .lean();
+
+  const grouped = new Map<string, ReturnType<typeof serializeAttachment>[]>();
+  for (const attachment of attachments) {
+    const key = attachment.donation_id.toString();
+    grouped.set(key, [...(grouped.get(key) || []), serializeAttachment(attachment)]);
+  }
+  return grouped;
+};
+
+export const reviewAttachment = async (
+  donationId: Id,
+  attachmentId: Id,
+  status: 'verified' | 'rejected',
+  reviewerId: Id,
+  note?: string
+): Promise<IDonationAttachment> => {
+  if (!mongoose.isValidObjectId(donationId) || !mongoose.isValidObjectId(attachmentId)) {
+    throw new HttpError(404, 'Attachment not found');
+  }
+  if (status === 'rejected' && !note?.trim()) {
+    throw new HttpError(400, 'Please give a note explaining why the attachment was rejected');
+  }
+
+  const attachment = await DonationAttachment.findOneAndUpdate(
+    { _id: attachmentId, donation_id: donationId },
+    {
+      review_status: status,
+      review_note: note?.trim() || null,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date(),
+    },
+    { new: true }
+  );
+  if (!attachment) {
+    throw new HttpError(404, 'Attachment not found');
+  }
+
+  const io = getIO();
+  if (io) {
+    io.to(`user:${attachment.user_id.toString()}`).emit('donation:attachment-reviewed', serializeAttachment(attachment));
+  }
+
+  return attachment;
+};
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Campaign, { ICampaign, PUBLIC_CAMPAIGN_STATUSES } from '../models/Campaign';
+import Donation, { RECEIVED_STATUSES } from '../models/Donation';
+import { getStorage, StoredFile } from '../storage';
+import { HttpError } from '../utils/errors';
+import { getReportingCurrency, reportingAmountStages } from './currencyService';
+import { processReceipt } from './receiptProcessing';
+
+type Id = mongoose.Types.ObjectId | string;
+
+const COVER_PREFIX = 'campaigns/';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CampaignProgress {
+  raised: number;
+  target: number;
+  percent: number; // Can exceed 100 when the goal is beaten
+  supporters: number;
+  donations: number;
+  days_left: number | null; // null when the campaign has no end date
+}
+
+// "Birthday Project 2025!" -> "birthday-project-2025"
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+
+// Active, started and not yet past its end date
+export const isAcceptingDonations = (campaign: Pick<ICampaign, 'status' | 'start_date' | 'end_date'>, now = new Date()): boolean =>
+  campaign.status === 'active' &&
+  campaign.start_date <= now &&
+  (!campaign.end_date || campaign.end_date > now);
+
+// Check a campaign_id submitted with a donation
+export const resolveCampaignForDonation = async (campaignId?: string): Promise<mongoose.Types.ObjectId | undefined> => {
+  if (!campaignId) {
+    return undefined;
+  }
+
+  const campaign = mongoose.isValidObjectId(campaignId) ? await Campaign.findById(campaignId).lean() : null;
+  if (!campaign || !PUBLIC_CAMPAIGN_STATUSES.includes(campaign.status)) {
+    throw new HttpError(400, 'Selected campaign does not exist', {
+      errors: [{ field: 'campaign_id', message: 'Selected campaign does not exist' }],
+    });
+  }
+  if (!isAcceptingDonations(campaign)) {
+    throw new HttpError(400, 'This campaign is not accepting donations', {
+      errors: [{ field: 'campaign_id', message: 'This campaign is not accepting donations' }],
+    });
+  }
+
+  return campaign._id;
+};
+
+// Progress for several campaigns in one aggregation. Counts received
+// donations net of refunds in the reporting currency, like the global stats.
+// Targets are in the reporting currency too.
+export const getCampaignsProgress = async (
+  campaigns: Pick<ICampaign, '_id' | 'target_amount' | 'end_date'>[]
+): Promise<Map<string, CampaignProgress>> => {
+  const totals = await Donation.aggregate([
+    {
+      $match: {
+        campaign_id: { $in: campaigns.map((c) => c._id) },
+        status: { $in: RECEIVED_STATUSES },
+      },
+    },
+    ...reportingAmountStages(),
+    {
+      $match: { reporting_amount: { $gt: 0 } },
+    },
+    {
+      $group: {
+        _id: '$campaign_id',
+        raised: { $sum: '$reporting_amount' },
+        donations: { $sum: 1 },
+        supporters: { $addToSet: '$user_id' },
+      },
+    },
+  ]);
+  const byId = new Map(totals.map((t) => [t._id.toString(), t]));
+
+  const now = Date.now();
+  const progress = new Map<string, CampaignProgress>();
+  for (const campaign of campaigns) {
+    const total = byId.get(campaign._id.toString());
+    const raised = total?.raised || 0;
+    progress.set(campaign._id.toString(), {
+      raised,
+      target: campaign.target_amount,
+      percent: Math.round((raised / campaign.target_amount) * 1000) / 10,
+      supporters: total?.supporters.length || 0,
+      donations: total?.donations || 0,
+      days_left: campaign.end_date
+        ? Math.max(0, Math.ceil((campaign.end_date.getTime() - now) / DAY_MS))
+        : null,
+    });
+  }
+  return progress;
+};
+
+export const getCampaignProgress = async (
+  campaign: Pick<ICampaign, '_id' | 'target_amount' | 'end_date'>
+): Promise<CampaignProgress> => (await getCampaignsProgress([campaign])).get(campaign._id.toString())!;
+
+// Public view of a campaign
+export const formatCampaign = (campaign: any, progress?: CampaignProgress) => ({
+  id: campaign._id.toString(),
+  title: campaign.title,
+  slug: campaign.slug,
+  description: campaign.description,
+  target_amount: campaign.target_amount,
+  currency: getReportingCurrency(),
+  milestones: campaign.milestones,
+  start_date: campaign.start_date.toISOString(),
+  end_date: campaign.end_date?.toISOString(),
+  cover_image_url: campaign.cover_image ? `/api/campaigns/${campaign.slug}/cover` : undefined,
+  status: campaign.status,
+  reason_id: campaign.reason_id?.toString(),
+  accepting_donations: isAcceptingDonations(campaign),
+  progress,
+  created_at: campaign.created_at.toISOString(),
+  updated_at: campaign.updated_at.toISOString(),
+});
+
+// Campaign covers are public images. They go through the same content checks
+// and EXIF stripping as receipts; PDFs are rejected.
+export const saveCampaignCover = async (buffer: Buffer): Promise<string> => {
+  const processed = await processReceipt(buffer, 'cover_image');
+  if (processed.type === 'pdf') {
+    throw new HttpError(415, 'Cover image must be a JPEG, PNG or WebP image', {
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      field: 'cover_image',
+    });
+  }
+
+  const key = `${COVER_PREFIX}${crypto.randomUUID()}${processed.extension}`;
+  await getStorage().put(key, processed.buffer, { content_type: processed.content_type });
+  return key;
+};
+
+export const openCampaignCover = async (key: string): Promise<StoredFile | null> =>
+  key.startsWith(COVER_PREFIX) ? getStorage().get(key) : null;
+
+export const deleteCampaignCover = async (key: string): Promise<void> => {
+  try {
+    await getStorage().delete(key);
+  } catch (error) {
+    console.error(`Error deleting campaign cover ${key}:`, error);
+  }
+};
+
+// Whether any donation points at the campaign; such campaigns are archived
+// rather than deleted
+export const hasCampaignDonations = async (campaignId: Id): Promise<boolean> =>
+  !!(await Donation.exists({ campaign_id: campaignId }));
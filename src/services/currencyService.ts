@@ -0,0 +1,118 @@
+import { PipelineStage } from 'mongoose';
+import Currency, { DEFAULT_CURRENCY } from '../models/Currency';
+import { NET_AMOUNT_EXPRESSION } from '../models/Donation';
+import ExchangeRate from '../models/ExchangeRate';
+import { HttpError } from '../utils/errors';
+
+export interface CurrencyRule {
+  code: string;
+  name: string;
+  symbol?: string;
+  min_amount: number;
+  max_amount?: number;
+  presets?: number[];
+}
+
+// Used until an admin configures US dollars, so existing installs keep the
+// $500 minimum
+const FALLBACK_CURRENCY: CurrencyRule = {
+  code: DEFAULT_CURRENCY,
+  name: 'US Dollar',
+  symbol: '$',
+  min_amount: 500,
+};
+
+// Currency that stats and top supporters are reported in. Exchange rates are
+// stored against it.
+export const getReportingCurrency = (): string =>
+  (process.env.REPORTING_CURRENCY || DEFAULT_CURRENCY).toUpperCase();
+
+const toCurrencyRule = (currency: any): CurrencyRule => ({
+  code: currency.code,
+  name: currency.name,
+  symbol: currency.symbol,
+  min_amount: currency.min_amount,
+  max_amount: currency.max_amount,
+  presets: currency.presets,
+});
+
+// Active currencies donors can choose from
+export const listActiveCurrencies = async (): Promise<CurrencyRule[]> => {
+  const currencies = await Currency.find({ is_active: true }).sort({ code: 1 }).lean();
+  const rules: CurrencyRule[] = currencies.map(toCurrencyRule);
+  if (!(await Currency.exists({ code: DEFAULT_CURRENCY }))) {
+    rules.unshift(FALLBACK_CURRENCY);
+  }
+  return rules;
+};
+
+// Load an active currency. Throws a 400 HttpError for `field: 'currency'`
+// when it is unknown or disabled.
+export const resolveCurrency = async (code: string): Promise<CurrencyRule> => {
+  const currency = await Currency.findOne({ code }).lean();
+  if (!currency && code === DEFAULT_CURRENCY) {
+    return FALLBACK_CURRENCY;
+  }
+  if (!currency || !currency.is_active) {
+    throw new HttpError(400, 'Selected currency is not accepted', {
+      errors: [{ field: 'currency', message: 'Selected currency is not accepted' }],
+    });
+  }
+  return toCurrencyRule(currency);
+};
+
+// Aggregation stages adding `fx_rate` and `reporting_amount` to each
+// donation: its amount net of refunds, converted into the reporting currency
+// at the rate in force when it was confirmed (when it was created if it never
+// was). If no rate was in force yet, the earliest later one is used.
+// Donations in a currency without any rate get a null `reporting_amount`,
+// which $sum skips.
+export const reportingAmountStages = (): PipelineStage[] => {
+  const reporting = getReportingCurrency();
+  const currency = { $ifNull: ['$currency', DEFAULT_CURRENCY] };
+
+  return [
+    {
+      $lookup: {
+        from: ExchangeRate.collection.name,
+        let: { currency, at: { $ifNull: ['$confirmed_at', '$created_at'] } },
+        pipeline: [
+          {
+            $match: {
+              $expr: {
+                $and: [{ $eq: ['$currency', '$$currency'] }, { $eq: ['$base_currency', reporting] }],
+              },
+            },
+          },
+          {
+            $addFields: {
+              in_force: { $lte: ['$effective_at', '$$at'] },
+              distance: { $abs: { $subtract: ['$effective_at', '$$at'] } },
+            },
+          },
+          { $sort: { in_force: -1, distance: 1 } },
+          { $limit: 1 },
+          { $project: { _id: 0, rate: 1 } },
+        ],
+        as: 'fx',
+      },
+    },
+    {
+      $addFields: {
+        fx_rate: {
+          $cond: [{ $eq: [currency, reporting] }, 1, { $arrayElemAt: ['$fx.rate', 0] }],
+        },
+      },
+    },
+    {
+      $addFields: {
+        reporting_amount: { $multiply: [NET_AMOUNT_EXPRESSION, '$fx_rate'] },
+      },
+    },
+    { $project: { fx: 0 } },
+  ];
+};
+
+// Convert a field into the reporting currency inside $group, after
+// reportingAmountStages()
+export const inReportingCurrency = (field: string) => ({ $multiply: [{ $ifNull: [field, 0] }, '$fx_rate'] });
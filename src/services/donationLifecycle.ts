@@ -0,0 +1,276 @@
+import mongoose from 'mongoose';
+import Donation, { IDonation, DonationStatus, RefundType } from '../models/Donation';
+import { HttpError } from '../utils/errors';
+
+// Legal donation status transitions. Terminal states map to an empty list.
+// Refunded and reversed are only reached through recordRefund, which also
+// records the amount.
+export const DONATION_TRANSITIONS: Record<DonationStatus, DonationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  refunded: [],
+  reversed: [],
+};
+
+// Statuses money can still be returned from, as long as some is left
+export const REFUNDABLE_STATUSES: DonationStatus[] = ['confirmed', 'completed', 'refunded', 'reversed'];
+
+const REFUND_STATUS: Record<RefundType, DonationStatus> = {
+  refund: 'refunded',
+  reversal: 'reversed',
+};
+
+export const canTransition = (from: DonationStatus, to: DonationStatus): boolean =>
+  DONATION_TRANSITIONS[from]?.includes(to) ?? false;
+
+export class InvalidTransitionError extends HttpError {
+  constructor(from: DonationStatus, to: DonationStatus) {
+    super(409, `Cannot change donation status from ${from} to ${to}`, {
+      from,
+      to,
+      allowed: DONATION_TRANSITIONS[from] || [],
+    });
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class DonationClaimedError extends HttpError {
+  constructor(donation: IDonation) {
+    super(409, 'Another admin is reviewing this donation', {
+      code: 'DONATION_CLAIMED',
+      claimed_by: donation.claimed_by?.toString(),
+      claim_expires_at: donation.claim_expires_at?.toISOString(),
+    });
+    this.name = 'DonationClaimedError';
+  }
+}
+
+// Why an admin declined a donation. Stored on the donation and shown to the donor.
+export interface DonationDecline {
+  reason_id?: mongoose.Types.ObjectId; // Preset DeclineReason, if one was picked
+  message: string;
+}
+
+export interface TransitionOptions {
+  actor?: mongoose.Types.ObjectId | string; // User making the change
+  reason?: string;
+  decline?: DonationDecline; // Recorded when moving to cancelled
+  ignoreClaim?: boolean; // Allow the change even if another admin holds the review claim
+}
+
+// Whether someone other than `actor` holds an unexpired review queue claim
+export const isClaimedByOther = (
+  donation: Pick<IDonation, 'claimed_by' | 'claim_expires_at'>,
+  actor?: mongoose.Types.ObjectId | string
+): boolean =>
+  !!donation.claimed_by &&
+  !!donation.claim_expires_at &&
+  donation.claim_expires_at > new Date() &&
+  donation.claimed_by.toString() !== actor?.toString();
+
+// Extra filter so a claim taken between our read and write is not overridden
+const claimFilter = (options: TransitionOptions) =>
+  options.ignoreClaim
+    ? {}
+    : {
+        $or: [
+          { claimed_by: null },
+          { claim_expires_at: { $lte: new Date() } },
+          ...(options.actor ? [{ claimed_by: options.actor }] : []),
+        ],
+      };
+
+// Build the $set/$push update for a single transition
+const buildTransitionUpdate = (
+  donation: IDonation,
+  to: DonationStatus,
+  options: TransitionOptions
+) => {
+  const now = new Date();
+  const set: Record<string, any> = { status: to };
+  if (to === 'confirmed' && !donation.confirmed_at) {
+    set.confirmed_at = now;
+  }
+  if (to === 'completed' && !donation.completed_at) {
+    set.completed_at = now;
+  }
+  if (to === 'cancelled' && options.decline) {
+    set.decline_reason = options.decline.message;
+    set.decline_reason_id = options.decline.reason_id;
+  }
+
+  return {
+    $set: set,
+    // A decided donation leaves the review queue
+    $unset: { claimed_by: 1, claimed_at: 1, claim_expires_at: 1 },
+    $push: {
+      status_history: {
+        from: donation.status,
+        to,
+        actor: options.actor,
+        reason: options.reason,
+        changed_at: now,
+      },
+    },
+  };
+};
+
+// Move a donation to a new status, enforcing DONATION_TRANSITIONS.
+// The update is conditional on the status we validated against, so two
+// concurrent changes cannot both succeed.
+export const transitionDonation = async (
+  donationId: mongoose.Types.ObjectId | string,
+  to: DonationStatus,
+  options: TransitionOptions = {}
+): Promise<IDonation> => {
+  const donation = await Donation.findById(donationId);
+  if (!donation) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const from = donation.status;
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+  if (!options.ignoreClaim && isClaimedByOther(donation, options.actor)) {
+    throw new DonationClaimedError(donation);
+  }
+
+  const updated = await Donation.findOneAndUpdate(
+    { _id: donation._id, status: from, ...claimFilter(options) },
+    buildTransitionUpdate(donation, to, options),
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new HttpError(409, 'Donation status was changed by another request. Please retry.');
+  }
+
+  return updated;
+};
+
+export interface BulkTransitionResult {
+  matchedCount: number;
+  modifiedCount: number;
+  skipped: { id: string; status: DonationStatus; claimed_by?: string }[];
+  donations: IDonation[];
+}
+
+// Apply the same transition to every donation matching `filter`.
+// Donations that cannot legally make the move are skipped, not failed.
+export const transitionDonations = async (
+  filter: Record<string, any>,
+  to: DonationStatus,
+  options: TransitionOptions = {}
+): Promise<BulkTransitionResult> => {
+  const donations = await Donation.find(filter);
+  const result: BulkTransitionResult = {
+    matchedCount: donations.length,
+    modifiedCount: 0,
+    skipped: [],
+    donations: [],
+  };
+
+  for (const donation of donations) {
+    if (!canTransition(donation.status, to)) {
+      result.skipped.push({ id: donation._id.toString(), status: donation.status });
+      continue;
+    }
+    if (!options.ignoreClaim && isClaimedByOther(donation, options.actor)) {
+      result.skipped.push({
+        id: donation._id.toString(),
+        status: donation.status,
+        claimed_by: donation.claimed_by!.toString(),
+      });
+      continue;
+    }
+
+    const updated = await Donation.findOneAndUpdate(
+      { _id: donation._id, status: donation.status, ...claimFilter(options) },
+      buildTransitionUpdate(donation, to, options),
+      { new: true }
+    );
+
+    if (updated) {
+      result.modifiedCount++;
+      result.donations.push(updated);
+    } else {
+      result.skipped.push({ id: donation._id.toString(), status: donation.status });
+    }
+  }
+
+  return result;
+};
+
+export interface RefundInput {
+  type: RefundType;
+  amount?: number; // Defaults to everything not yet refunded
+  reason: string;
+  actor: mongoose.Types.ObjectId | string;
+}
+
+// Record a full or partial refund/reversal and move the donation to
+// refunded/reversed. Conditional on the status and refunded total we checked,
+// so concurrent refunds cannot return more than was received.
+export const recordRefund = async (
+  donationId: mongoose.Types.ObjectId | string,
+  input: RefundInput
+): Promise<IDonation> => {
+  const donation = mongoose.isValidObjectId(donationId) ? await Donation.findById(donationId) : null;
+  if (!donation) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const to = REFUND_STATUS[input.type];
+  if (!REFUNDABLE_STATUSES.includes(donation.status)) {
+    throw new InvalidTransitionError(donation.status, to);
+  }
+
+  const refundedSoFar = donation.refunded_amount || 0;
+  const remaining = Math.round((donation.amount - refundedSoFar) * 100) / 100;
+  const amount = input.amount ?? remaining;
+  if (remaining <= 0) {
+    throw new HttpError(409, 'This donation has already been fully refunded');
+  }
+  if (!(amount > 0) || amount > remaining) {
+    throw new HttpError(400, `Amount must be between 0.01 and ${remaining}`, { remaining });
+  }
+
+  const now = new Date();
+  const updated = await Donation.findOneAndUpdate(
+    {
+      _id: donation._id,
+      status: donation.status,
+      // Donations saved before refunds existed have no refunded_amount
+      refunded_amount: refundedSoFar > 0 ? refundedSoFar : { $in: [0, null] },
+    },
+    {
+      $set: { status: to, refunded_amount: Math.round((refundedSoFar + amount) * 100) / 100 },
+      $push: {
+        refunds: {
+          type: input.type,
+          amount,
+          reason: input.reason,
+          actor: input.actor,
+          created_at: now,
+        },
+        status_history: {
+          from: donation.status,
+          to,
+          actor: input.actor,
+          reason: input.reason,
+          changed_at: now,
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new HttpError(409, 'Donation was changed by another request. Please retry.');
+  }
+
+  return updated;
+};
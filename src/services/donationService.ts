@@ -0,0 +1,681 @@
+import mongoose from 'mongoose';
+import Donation, {
+  IDonation,
+  IDonationFieldChange,
+  IPaymentDetail,
+  DonationStatus,
+  RECEIVED_STATUSES,
+} from '../models/Donation';
+import PaymentMethod from '../models/PaymentMethod';
+import DeclineReason from '../models/DeclineReason';
+import User from '../models/User';
+import { CURRENCY_CODE_REGEX, DEFAULT_CURRENCY } from '../models/Currency';
+import { queueMail } from '../mailer';
+import { getIO } from '../socket/io';
+import { HttpError } from '../utils/errors';
+import {
+  encryptPaymentDetails,
+  serializePaymentDetails,
+  validatePaymentDetails,
+} from './paymentFields';
+import { resolveCampaignForDonation } from './campaignService';
+import { checkDonationAmount } from './amountLimits';
+import { getReportingCurrency, reportingAmountStages } from './currencyService';
+import { checkMilestones } from './milestoneService';
+import { decryptField } from '../utils/fieldEncryption';
+import {
+  transitionDonation,
+  transitionDonations,
+  TransitionOptions,
+  BulkTransitionResult,
+  DonationDecline,
+  recordRefund,
+  RefundInput,
+} from './donationLifecycle';
+
+// Fields a client may set when creating a donation. Anything else in the
+// payload (status, user_id, confirmed_at, ...) is ignored. Payment method
+// field values go in `payment_details`; top-level keys matching a field key
+// are also accepted so older clients sending e.g. `wallet_address` keep working.
+export interface CreateDonationInput {
+  amount?: any;
+  currency?: any;
+  message?: any;
+  is_anonymous?: any;
+  reason_id?: any;
+  campaign_id?: any;
+  payment_method_id?: any;
+  payment_details?: Record<string, any>;
+  [fieldKey: string]: any;
+}
+
+export interface CreateDonationOptions {
+  files?: Record<string, string>; // Uploaded file paths by field key (REST only)
+  // Set by the pledge scheduler. The donor adds required payment details
+  // later and is emailed by the scheduler instead of getting donation_received.
+  pledge?: { pledge_id: mongoose.Types.ObjectId; due_at: Date };
+}
+
+export interface DonationStats {
+  currency: string; // Reporting currency total_raised is in
+  total_raised: number;
+  total_donations: number;
+  total_supporters: number;
+}
+
+export interface ListDonationsOptions {
+  status?: string;
+  user_id?: string | mongoose.Types.ObjectId;
+  page?: number;
+  limit?: number;
+  populate?: { path: string; select: string }[];
+}
+
+const toBoolean = (value: any): boolean =>
+  value === true || value === 'true' || value === '1' || value === 1;
+
+const optionalString = (value: any): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  return str.length > 0 ? str : undefined;
+};
+
+// Validate and normalize client input. Throws a 400 HttpError with every
+// field error in `details.errors`; `message` is the first one, matching the
+// shape routes already return for express-validator failures.
+export const validateCreateDonationInput = (input: CreateDonationInput) => {
+  const errors: { field: string; message: string }[] = [];
+
+  // Minimums and maximums are checked by checkDonationAmount
+  const amount = Number(input.amount);
+  if (input.amount === undefined || input.amount === '' || !Number.isFinite(amount) || amount <= 0) {
+    errors.push({ field: 'amount', message: 'Please provide a valid amount' });
+  }
+
+  const currency = optionalString(input.currency)?.toUpperCase() || DEFAULT_CURRENCY;
+  if (!CURRENCY_CODE_REGEX.test(currency)) {
+    errors.push({ field: 'currency', message: 'Currency must be a 3-letter ISO 4217 code' });
+  }
+
+  const message = optionalString(input.message);
+  if (message && message.length > 500) {
+    errors.push({ field: 'message', message: 'Message cannot exceed 500 characters' });
+  }
+
+  if (
+    input.is_anonymous !== undefined &&
+    ![true, false, 'true', 'false', '1', '0', 1, 0].includes(input.is_anonymous)
+  ) {
+    errors.push({ field: 'is_anonymous', message: 'is_anonymous must be a boolean' });
+  }
+
+  const reasonId = optionalString(input.reason_id);
+  if (reasonId && !mongoose.Types.ObjectId.isValid(reasonId)) {
+    errors.push({ field: 'reason_id', message: 'Invalid reason ID' });
+  }
+
+  const campaignId = optionalString(input.campaign_id);
+  if (campaignId && !mongoose.Types.ObjectId.isValid(campaignId)) {
+    errors.push({ field: 'campaign_id', message: 'Invalid campaign ID' });
+  }
+
+  const paymentMethodId = optionalString(input.payment_method_id);
+  if (paymentMethodId && !mongoose.Types.ObjectId.isValid(paymentMethodId)) {
+    errors.push({ field: 'payment_method_id', message: 'Invalid payment method ID' });
+  }
+
+  if (errors.length > 0) {
+    throw new HttpError(400, errors[0].message, { errors });
+  }
+
+  return {
+    amount,
+    currency,
+    message,
+    is_anonymous: toBoolean(input.is_anonymous),
+    reason_id: reasonId,
+    campaign_id: campaignId,
+    payment_method_id: paymentMethodId,
+  };
+};
+
+// Load the selected payment method and validate the submitted values against
+// its field list. Unknown or inactive methods are rejected.
+export const resolvePaymentDetails = async (
+  paymentMethodId: string | undefined,
+  input: CreateDonationInput,
+  files: Record<string, string> = {},
+  options: { deferRequired?: boolean } = {}
+): Promise<Record<string, IPaymentDetail> | undefined> => {
+  if (!paymentMethodId) {
+    return undefined;
+  }
+
+  const method = await PaymentMethod.findById(paymentMethodId).lean();
+  if (!method) {
+    throw new HttpError(400, 'Selected payment method does not exist', {
+      errors: [{ field: 'payment_method_id', message: 'Selected payment method does not exist' }],
+    });
+  }
+  if (!method.is_active) {
+    throw new HttpError(400, 'Selected payment method is not available', {
+      errors: [{ field: 'payment_method_id', message: 'Selected payment method is not available' }],
+    });
+  }
+
+  const submitted = input.payment_details && typeof input.payment_details === 'object'
+    ? input.payment_details
+    : {};
+  const values: Record<string, any> = {};
+  for (const field of method.fields || []) {
+    values[field.key] = submitted[field.key] ?? input[field.key];
+  }
+
+  const { details, errors } = validatePaymentDetails(method.fields || [], values, files, options);
+  if (errors.length > 0) {
+    throw new HttpError(400, errors[0].message, { errors });
+  }
+
+  return Object.keys(details).length > 0 ? details : undefined;
+};
+
+// Admins must say why they decline a donation: pick an active preset from
+// the DeclineReason list, type a reason, or both (typed text is shown to the
+// donor instead of the preset message).
+export const resolveDeclineReason = async (
+  declineReasonId: any,
+  reason: any
+): Promise<DonationDecline> => {
+  const text = optionalString(reason);
+  if (text && text.length > 500) {
+    throw new HttpError(400, 'Reason cannot exceed 500 characters');
+  }
+
+  if (declineReasonId) {
+    const preset = mongoose.isValidObjectId(declineReasonId)
+      ? await DeclineReason.findById(declineReasonId).lean()
+      : null;
+    if (!preset || !preset.is_active) {
+      throw new HttpError(400, 'Selected decline reason does not exist');
+    }
+    return { reason_id: preset._id, message: text || preset.message };
+  }
+
+  if (!text || text.length < 3) {
+    throw new HttpError(400, 'A decline reason is required to cancel a donation', {
+      code: 'DECLINE_REASON_REQUIRED',
+    });
+  }
+  return { message: text };
+};
+
+// Public totals for received donations, net of refunds and reversals and in
+// the reporting currency. Fully refunded donations do not count as donations
+// or supporters.
+export const getDonationStats = async (): Promise<DonationStats> => {
+  const stats = await Donation.aggregate([
+    {
+      $match: {
+        status: { $in: RECEIVED_STATUSES },
+      },
+    },
+    ...reportingAmountStages(),
+    {
+      $match: { reporting_amount: { $gt: 0 } },
+    },
+    {
+      $group: {
+        _id: null,
+        total_raised: { $sum: '$reporting_amount' },
+        total_donations: { $sum: 1 },
+        unique_donors: { $addToSet: '$user_id' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        total_raised: 1,
+        total_donations: 1,
+        total_supporters: { $size: '$unique_donors' },
+      },
+    },
+  ]);
+
+  return {
+    currency: getReportingCurrency(),
+    ...(stats[0] || { total_raised: 0, total_donations: 0, total_supporters: 0 }),
+  };
+};
+
+// Push fresh stats to every connected client
+const broadcastStats = async (): Promise<void> => {
+  const io = getIO();
+  if (!io) return;
+  io.emit('stats:update', await getDonationStats());
+};
+
+// Payload of the donor's donation:created event. The socket transport also
+// stores it for idempotent replays, so both carry the same fields.
+export const formatDonationCreated = (donation: IDonation) => ({
+  id: donation._id.toString(),
+  amount: donation.amount,
+  currency: donation.currency,
+  status: donation.status,
+  created_at: donation.created_at.toISOString(),
+});
+
+const emitStatusUpdated = (donation: IDonation): void => {
+  const io = getIO();
+  if (!io) return;
+  io.to(`user:${donation.user_id}`).emit('donation:status-updated', {
+    id: donation._id,
+    status: donation.status,
+    decline_reason: donation.decline_reason,
+    refunded_amount: donation.refunded_amount || undefined,
+  });
+};
+
+type DonationMailTemplate =
+  | 'donation_received'
+  | 'donation_confirmed'
+  | 'donation_cancelled'
+  | 'donation_refunded'
+  | 'donation_reversed';
+
+// Email the donor about their donation. Failures are logged, never thrown.
+const notifyDonor = async (
+  donation: IDonation,
+  template: DonationMailTemplate,
+  details: { reason?: string; refund_amount?: number } = {}
+): Promise<void> => {
+  try {
+    const user = await User.findById(donation.user_id).select('email full_name').lean();
+    if (!user) return;
+
+    await queueMail(user.email, template, {
+      full_name: user.full_name,
+      amount: donation.amount,
+      currency: donation.currency,
+      donation_id: donation._id.toString(),
+      reason: details.reason,
+      refund_amount: details.refund_amount ?? 0,
+    });
+  } catch (error) {
+    console.error('Error notifying donor:', error);
+  }
+};
+
+// Status changes the donor gets an email about
+const STATUS_EMAIL_TEMPLATES: Partial<Record<DonationStatus, 'donation_confirmed' | 'donation_cancelled'>> = {
+  confirmed: 'donation_confirmed',
+  cancelled: 'donation_cancelled',
+};
+
+// Moving into these statuses can push a campaign or reason past a milestone
+const MILESTONE_STATUSES: DonationStatus[] = ['confirmed', 'completed'];
+
+// Create a pending donation for a user and notify listeners. Runs the same
+// checks for the REST route, the socket event and the pledge scheduler.
+export const createDonation = async (
+  userId: mongoose.Types.ObjectId | string,
+  input: CreateDonationInput,
+  options: CreateDonationOptions = {}
+): Promise<IDonation> => {
+  const data = validateCreateDonationInput(input);
+  await checkDonationAmount(data.amount, data);
+  await resolveCampaignForDonation(data.campaign_id);
+  const paymentDetails = await resolvePaymentDetails(
+    data.payment_method_id,
+    input,
+    options.files,
+    { deferRequired: !!options.pledge }
+  );
+
+  const donation = await Donation.create({
+    user_id: userId,
+    ...data,
+    payment_details: encryptPaymentDetails(paymentDetails),
+    ...(options.pledge && { pledge_id: options.pledge.pledge_id, pledge_due_at: options.pledge.due_at }),
+    status: 'pending',
+  });
+
+  const io = getIO();
+  if (io) {
+    io.to(`user:${userId}`).emit('donation:created', formatDonationCreated(donation));
+
+    io.to('admin').emit('donation:new', {
+      id: donation._id,
+      user_id: userId,
+      amount: donation.amount,
+      currency: donation.currency,
+      pledge_id: donation.pledge_id,
+      created_at: donation.created_at,
+    });
+  }
+
+  await broadcastStats();
+  if (!options.pledge) {
+    await notifyDonor(donation, 'donation_received');
+  }
+
+  return donation;
+};
+
+// Move one donation to a new status and notify listeners
+export const changeDonationStatus = async (
+  donationId: mongoose.Types.ObjectId | string,
+  status: DonationStatus,
+  options: TransitionOptions = {}
+): Promise<IDonation> => {
+  const donation = await transitionDonation(donationId, status, options);
+
+  emitStatusUpdated(donation);
+  await broadcastStats();
+  if (MILESTONE_STATUSES.includes(status)) {
+    await checkMilestones([donation]);
+  }
+
+  const template = STATUS_EMAIL_TEMPLATES[status];
+  if (template) {
+    await notifyDonor(donation, template, { reason: options.reason });
+  }
+
+  return donation;
+};
+
+// Record a refund or reversal and tell the donor
+export const refundDonation = async (
+  donationId: mongoose.Types.ObjectId | string,
+  input: RefundInput
+): Promise<IDonation> => {
+  const donation = await recordRefund(donationId, input);
+
+  emitStatusUpdated(donation);
+  await broadcastStats();
+  await notifyDonor(donation, input.type === 'refund' ? 'donation_refunded' : 'donation_reversed', {
+    reason: input.reason,
+    refund_amount: donation.refunds[donation.refunds.length - 1].amount,
+  });
+
+  return donation;
+};
+
+// Move every donation matching a filter to a new status
+export const bulkChangeDonationStatus = async (
+  filter: Record<string, any>,
+  status: DonationStatus,
+  options: TransitionOptions = {}
+): Promise<BulkTransitionResult> => {
+  const result = await transitionDonations(filter, status, options);
+
+  result.donations.forEach(emitStatusUpdated);
+  if (result.modifiedCount > 0) {
+    await broadcastStats();
+  }
+  if (MILESTONE_STATUSES.includes(status)) {
+    await checkMilestones(result.donations);
+  }
+
+  const template = STATUS_EMAIL_TEMPLATES[status];
+  if (template) {
+    for (const donation of result.donations) {
+      await notifyDonor(donation, template, { reason: options.reason });
+    }
+  }
+
+  return result;
+};
+
+// Fields a donor may change on a pending donation, compared in this order
+const EDITABLE_FIELDS = [
+  'amount',
+  'currency',
+  'message',
+  'is_anonymous',
+  'reason_id',
+  'campaign_id',
+  'payment_method_id',
+] as const;
+
+const sameValue = (a: any, b: any): boolean =>
+  (a === undefined || a === null ? undefined : String(a)) ===
+  (b === undefined || b === null ? undefined : String(b));
+
+// Load a donation the user owns and check it can still be changed
+const findPendingOwnDonation = async (
+  donationId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  action: string
+): Promise<IDonation> => {
+  const donation = mongoose.isValidObjectId(donationId) ? await Donation.findById(donationId) : null;
+  if (!donation || donation.user_id.toString() !== userId.toString()) {
+    throw new HttpError(404, 'Donation not found');
+  }
+  if (donation.status !== 'pending') {
+    throw new HttpError(409, `Only pending donations can be ${action}`, { status: donation.status });
+  }
+  return donation;
+};
+
+// Let a donor correct their own pending donation. Omitted fields keep their
+// current value; payment details are revalidated against the payment method
+// as a whole. Every change is recorded in edit_history and admins are told
+// over the socket. Returns the donation and the stored keys of any uploads
+// that were replaced so the caller can delete them.
+export const updatePendingDonation = async (
+  donationId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  input: CreateDonationInput,
+  options: CreateDonationOptions = {}
+): Promise<{ donation: IDonation; replacedFiles: string[] }> => {
+  const donation = await findPendingOwnDonation(donationId, userId, 'edited');
+
+  // Current values, decrypted, for anything the donor did not send
+  const current = serializePaymentDetails(donation.toObject().payment_details);
+  const submittedDetails = input.payment_details && typeof input.payment_details === 'object'
+    ? input.payment_details
+    : {};
+  const mergedDetails: Record<string, any> = {};
+  const currentFiles: Record<string, string> = {};
+  for (const [key, detail] of Object.entries(current)) {
+    if (detail.type === 'file') {
+      currentFiles[key] = String(detail.value);
+    } else if (submittedDetails[key] === undefined && input[key] === undefined) {
+      mergedDetails[key] = decryptField(String(detail.value));
+    }
+  }
+
+  const merged: CreateDonationInput = {
+    ...input,
+    amount: input.amount ?? donation.amount,
+    currency: input.currency ?? donation.currency,
+    message: input.message !== undefined ? input.message : donation.message,
+    is_anonymous: input.is_anonymous ?? donation.is_anonymous,
+    reason_id: input.reason_id !== undefined ? input.reason_id : donation.reason_id?.toString(),
+    campaign_id: input.campaign_id !== undefined ? input.campaign_id : donation.campaign_id?.toString(),
+    payment_method_id: input.payment_method_id ?? donation.payment_method_id?.toString(),
+    payment_details: { ...mergedDetails, ...submittedDetails },
+  };
+
+  const data = validateCreateDonationInput(merged);
+  if (
+    !sameValue(data.amount, donation.amount) ||
+    !sameValue(data.currency, donation.currency) ||
+    !sameValue(data.payment_method_id, donation.payment_method_id) ||
+    !sameValue(data.reason_id, donation.reason_id)
+  ) {
+    await checkDonationAmount(data.amount, data);
+  }
+  if (!sameValue(data.campaign_id, donation.campaign_id)) {
+    await resolveCampaignForDonation(data.campaign_id);
+  }
+
+  // Only revalidate payment details when they or the method change, so a
+  // donor can still fix their message after the method was deactivated
+  const detailsTouched =
+    Object.keys(submittedDetails).length > 0 ||
+    Object.keys(options.files || {}).length > 0 ||
+    !sameValue(data.payment_method_id, donation.payment_method_id) ||
+    Object.keys(current).some((key) => input[key] !== undefined);
+
+  const changes: IDonationFieldChange[] = [];
+  for (const field of EDITABLE_FIELDS) {
+    const before = field === 'reason_id' || field === 'campaign_id' || field === 'payment_method_id'
+      ? donation[field]?.toString()
+      : donation[field];
+    if (!sameValue(before, data[field])) {
+      changes.push({ field, from: before, to: data[field] });
+    }
+  }
+
+  const storedDetails: Record<string, IPaymentDetail> = {};
+  const replacedFiles: string[] = [];
+  if (detailsTouched) {
+    const files = { ...currentFiles, ...(options.files || {}) };
+    const paymentDetails = await resolvePaymentDetails(data.payment_method_id, merged, files) || {};
+    const encrypted = encryptPaymentDetails(paymentDetails) || {};
+
+    for (const key of new Set([...Object.keys(current), ...Object.keys(paymentDetails)])) {
+      const before = current[key];
+      const after = paymentDetails[key];
+      const beforeValue = before && (before.type === 'file' ? before.value : decryptField(String(before.value)));
+
+      // Unchanged values keep their stored form so they are not re-encrypted
+      // on every edit
+      if (before && after && sameValue(beforeValue, after.value)) {
+        storedDetails[key] = before;
+        continue;
+      }
+      if (after) {
+        storedDetails[key] = encrypted[key];
+      }
+      if (before?.type === 'file') {
+        replacedFiles.push(String(before.value));
+      }
+      changes.push({
+        field: `payment_details.${key}`,
+        from: before?.value,
+        to: after ? encrypted[key].value : undefined,
+        ...((before?.sensitive || after?.sensitive) && { sensitive: true }),
+      });
+    }
+  }
+
+  if (changes.length === 0) {
+    return { donation, replacedFiles };
+  }
+
+  // Cleared optional fields have to be unset explicitly; undefined values
+  // are dropped from updates
+  const set: Record<string, any> = {};
+  const unset: Record<string, 1> = {};
+  for (const change of changes) {
+    if (change.field.startsWith('payment_details.')) continue;
+    const field = change.field as typeof EDITABLE_FIELDS[number];
+    if (data[field] === undefined) {
+      unset[field] = 1;
+    } else {
+      set[field] = data[field];
+    }
+  }
+  if (detailsTouched) {
+    if (Object.keys(storedDetails).length > 0) {
+      set.payment_details = storedDetails;
+    } else {
+      unset.payment_details = 1;
+    }
+  }
+
+  const editedAt = new Date();
+  const updated = await Donation.findOneAndUpdate(
+    { _id: donation._id, user_id: donation.user_id, status: 'pending' },
+    {
+      $set: set,
+      ...(Object.keys(unset).length > 0 && { $unset: unset }),
+      $push: { edit_history: { editor: userId, changes, edited_at: editedAt } },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new HttpError(409, 'Donation was changed by another request. Please retry.');
+  }
+
+  const io = getIO();
+  if (io) {
+    io.to('admin').emit('donation:edited', {
+      id: updated._id,
+      user_id: updated.user_id,
+      amount: updated.amount,
+      fields: changes.map((change) => change.field),
+      edited_at: editedAt,
+    });
+  }
+
+  return { donation: updated, replacedFiles };
+};
+
+// Let a donor withdraw their own pending donation. This goes ahead even if
+// an admin has claimed it for review; the admin room is told either way.
+export const cancelPendingDonation = async (
+  donationId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  reason?: string
+): Promise<IDonation> => {
+  const donation = await findPendingOwnDonation(donationId, userId, 'cancelled');
+
+  const updated = await transitionDonation(donation._id, 'cancelled', {
+    actor: userId,
+    reason,
+    ignoreClaim: true,
+  });
+
+  emitStatusUpdated(updated);
+
+  const io = getIO();
+  if (io) {
+    io.to('admin').emit('donation:cancelled-by-donor', {
+      id: updated._id,
+      user_id: updated.user_id,
+      amount: updated.amount,
+      reason,
+      was_claimed_by: donation.claimed_by,
+    });
+  }
+
+  return updated;
+};
+
+// Paginated donation list, newest first
+export const listDonations = async (options: ListDonationsOptions = {}) => {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const skip = (page - 1) * limit;
+
+  const query: any = {};
+  if (options.status) query.status = options.status;
+  if (options.user_id) query.user_id = options.user_id;
+
+  let find = Donation.find(query);
+  for (const populate of options.populate || []) {
+    find = find.populate(populate.path, populate.select);
+  }
+
+  const donations = await find
+    .sort({ created_at: -1 })
+    .skip(skip)
+    .limit(limit)
+    .lean();
+
+  const total = await Donation.countDocuments(query);
+
+  return {
+    donations,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import IdempotencyKey, { IIdempotencyKey } from '../models/IdempotencyKey';
+import { HttpError } from '../utils/errors';
+
+type Id = mongoose.Types.ObjectId | string;
+
+const KEY_REGEX = /^[\x21-\x7e]{1,255}$/; // Printable ASCII, no spaces
+
+// How long a key is remembered, read on every call like the throttle limits
+const getTtlMs = (): number =>
+  (parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '', 10) || 24) * 60 * 60 * 1000;
+
+// A request still "processing" after this long is assumed to have died
+// (e.g. the server restarted) and a retry may take the key over
+const STALE_LOCK_MS = 2 * 60 * 1000;
+
+export type IdempotencyResult =
+  | { replay: { status: number; body: any } }
+  | { record: IIdempotencyKey };
+
+// JSON with object keys sorted, so the same payload always hashes the same
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const hashPayload = (payload: unknown): string =>
+  crypto.createHash('sha256').update(stableStringify(payload)).digest('hex');
+
+export const isValidIdempotencyKey = (key: unknown): key is string =>
+  typeof key === 'string' && KEY_REGEX.test(key);
+
+// Reserve a key before doing the work. Returns either the stored response of
+// an earlier request with the same key and payload, or a record to complete
+// once the work is done. Throws 422 when the key was used with a different
+// payload and 409 while the first request is still in progress.
+export const beginIdempotentRequest = async (
+  userId: Id,
+  scope: string,
+  key: string,
+  payload: unknown
+): Promise<IdempotencyResult> => {
+  if (!isValidIdempotencyKey(key)) {
+    throw new HttpError(400, 'Idempotency-Key must be 1-255 printable characters', {
+      code: 'INVALID_IDEMPOTENCY_KEY',
+    });
+  }
+
+  const requestHash = hashPayload(payload);
+  const now = new Date();
+
+  const reserve = async (): Promise<IIdempotencyKey | null> => {
+    try {
+      return await IdempotencyKey.create({
+        user_id: userId,
+        scope,
+        key,
+        request_hash: requestHash,
+        locked_at: now,
+        expires_at: new Date(now.getTime() + getTtlMs()),
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+      return null;
+    }
+  };
+
+  let record = await reserve();
+  if (record) {
+    return { record };
+  }
+
+  // The TTL monitor only runs about once a minute, so keys past expires_at
+  // can still be in the collection. Treat them as gone.
+  const { deletedCount } = await IdempotencyKey.deleteOne({
+    user_id: userId,
+    scope,
+    key,
+    expires_at: { $lte: now },
+  });
+  if (deletedCount > 0) {
+    record = await reserve();
+    if (record) {
+      return { record };
+    }
+  }
+
+  const existing = await IdempotencyKey.findOne({ user_id: userId, scope, key });
+  if (!existing) {
+    // Expired between our insert and this read; let the client retry
+    throw new HttpError(409, 'Please retry the request', { code: 'IDEMPOTENCY_RETRY' });
+  }
+
+  if (existing.request_hash !== requestHash) {
+    throw new HttpError(422, 'This Idempotency-Key was already used with a different request', {
+      code: 'IDEMPOTENCY_KEY_REUSED',
+    });
+  }
+
+  if (existing.status === 'completed') {
+    return { replay: { status: existing.response_status || 200, body: existing.response_body } };
+  }
+
+  // Take over a lock left behind by a request that never finished
+  const takenOver = await IdempotencyKey.findOneAndUpdate(
+    { _id: existing._id, status: 'processing', locked_at: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } },
+    { $set: { locked_at: now } },
+    { new: true }
+  );
+  if (takenOver) {
+    return { record: takenOver };
+  }
+
+  throw new HttpError(409, 'A request with this Idempotency-Key is still being processed', {
+    code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+  });
+};
+
+// Store the response so retries get the same answer
+export const completeIdempotentRequest = async (
+  record: IIdempotencyKey,
+  status: number,
+  body: any
+): Promise<void> => {
+  await IdempotencyKey.updateOne(
+    { _id: record._id },
+    { $set: { status: 'completed', response_status: status, response_body: body } }
+  );
+};
+
+// Forget the key after a failed request so the client can retry with it
+export const releaseIdempotentRequest = async (record: IIdempotencyKey): Promise<void> => {
+  try {
+    await IdempotencyKey.deleteOne({ _id: record._id, status: 'processing' });
+  } catch (error) {
+    console.error('Error releasing idempotency key:', error);
+  }
+};
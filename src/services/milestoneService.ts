@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import ActivityLog from '../models/ActivityLog';
+import Campaign from '../models/Campaign';
+import Donation, { IDonation, RECEIVED_STATUSES } from '../models/Donation';
+import DonationReason from '../models/DonationReason';
+import Milestone, { DEFAULT_MILESTONES, IMilestone, isValidMilestoneList, MilestoneSubject } from '../models/Milestone';
+import User from '../models/User';
+import { hasPermission, ROLES } from '../config/permissions';
+import { queueMail } from '../mailer';
+import { getIO } from '../socket/io';
+import { getReportingCurrency, reportingAmountStages } from './currencyService';
+
+type Id = mongoose.Types.ObjectId | string;
+
+interface MilestoneTarget {
+  type: MilestoneSubject;
+  id: mongoose.Types.ObjectId;
+  title: string;
+  slug?: string;
+  target_amount: number;
+  milestones: number[];
+}
+
+// Accept `[25, 50]` (JSON) or `"25,50"` (multipart). Returns the sorted,
+// de-duplicated list, or null when a value is not a valid percentage.
+export const parseMilestones = (value: unknown): number[] | null => {
+  const parts = Array.isArray(value)
+    ? value
+    : String(value ?? '').split(',').map((p) => p.trim()).filter((p) => p.length > 0);
+  const milestones = parts.map(Number);
+  if (!isValidMilestoneList(milestones)) {
+    return null;
+  }
+  return [...new Set(milestones)].sort((a, b) => a - b);
+};
+
+// Net amount received for a campaign or reason in the reporting currency,
+// counted like campaign progress
+const getRaised = async (filter: Record<string, any>): Promise<number> => {
+  const [total] = await Donation.aggregate([
+    { $match: { ...filter, status: { $in: RECEIVED_STATUSES } } },
+    ...reportingAmountStages(),
+    { $group: { _id: null, raised: { $sum: '$reporting_amount' } } },
+  ]);
+  return total?.raised || 0;
+};
+
+// Roles that manage campaigns hear about milestones
+const notifyAdmins = async (target: MilestoneTarget, milestone: IMilestone): Promise<void> => {
+  try {
+    const roles = ROLES.filter((role) => hasPermission(role, 'campaigns:write'));
+    const admins = await User.find({ role: { $in: roles } }).select('email full_name').lean();
+    for (const admin of admins) {
+      await queueMail(admin.email, 'milestone_reached', {
+        full_name: admin.full_name,
+        title: target.title,
+        percent: milestone.percent,
+        raised: milestone.raised,
+        target_amount: milestone.target_amount,
+        currency: getReportingCurrency(),
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying admins of milestone:', error);
+  }
+};
+
+const announceMilestone = async (target: MilestoneTarget, milestone: IMilestone): Promise<void> => {
+  const io = getIO();
+  if (io) {
+    io.emit('campaign:milestone', {
+      type: target.type,
+      id: target.id.toString(),
+      slug: target.slug,
+      title: target.title,
+      percent: milestone.percent,
+      raised: milestone.raised,
+      target_amount: milestone.target_amount,
+      currency: getReportingCurrency(),
+      reached_at: milestone.reached_at.toISOString(),
+    });
+  }
+
+  await ActivityLog.create({
+    action: 'MILESTONE_REACHED',
+    resource_type: target.type,
+    resource_id: target.id,
+    details: {
+      title: target.title,
+      percent: milestone.percent,
+      raised: milestone.raised,
+      target_amount: milestone.target_amount,
+      donation_id: milestone.donation_id?.toString(),
+    },
+  });
+
+  await notifyAdmins(target, milestone);
+};
+
+// Record every milestone the target has passed and not yet celebrated. The
+// unique index on (subject, percent) lets only one of several concurrent
+// confirmations insert a milestone; the others get a duplicate key error.
+const checkTarget = async (target: MilestoneTarget, field: 'campaign_id' | 'reason_id', donationId?: Id) => {
+  if (!target.milestones.length) return;
+
+  const raised = await getRaised({ [field]: target.id });
+  const percent = (raised / target.target_amount) * 100;
+  const passed = target.milestones.filter((p) => percent >= p);
+  if (!passed.length) return;
+
+  const reached = await Milestone.find({ subject_type: target.type, subject_id: target.id }).distinct('percent');
+  for (const p of passed.filter((p) => !reached.includes(p))) {
+    let milestone: IMilestone;
+    try {
+      milestone = await Milestone.create({
+        subject_type: target.type,
+        subject_id: target.id,
+        percent: p,
+        target_amount: target.target_amount,
+        raised,
+        donation_id: donationId,
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) continue; // Another confirmation got there first
+      throw error;
+    }
+    await announceMilestone(target, milestone);
+  }
+};
+
+// Check the campaigns and reasons of donations that were just confirmed or
+// completed. Failures are logged, never thrown: the status change has
+// already happened.
+export const checkMilestones = async (donations: IDonation[]): Promise<void> => {
+  try {
+    // Last donation per campaign/reason, credited with crossing the milestone
+    const campaigns = new Map<string, IDonation>();
+    const reasons = new Map<string, IDonation>();
+    for (const donation of donations) {
+      if (donation.campaign_id) campaigns.set(donation.campaign_id.toString(), donation);
+      if (donation.reason_id) reasons.set(donation.reason_id.toString(), donation);
+    }
+
+    if (campaigns.size) {
+      const docs = await Campaign.find({ _id: { $in: [...campaigns.keys()] } }).lean();
+      for (const campaign of docs) {
+        await checkTarget(
+          {
+            type: 'campaign',
+            id: campaign._id,
+            title: campaign.title,
+            slug: campaign.slug,
+            target_amount: campaign.target_amount,
+            milestones: campaign.milestones ?? DEFAULT_MILESTONES,
+          },
+          'campaign_id',
+          campaigns.get(campaign._id.toString())!._id
+        );
+      }
+    }
+
+    if (reasons.size) {
+      const docs = await DonationReason.find({
+        _id: { $in: [...reasons.keys()] },
+        target_amount: { $gt: 0 },
+      }).lean();
+      for (const reason of docs) {
+        await checkTarget(
+          {
+            type: 'reason',
+            id: reason._id,
+            title: reason.title,
+            target_amount: reason.target_amount!,
+            milestones: reason.milestones ?? DEFAULT_MILESTONES,
+          },
+          'reason_id',
+          reasons.get(reason._id.toString())!._id
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Error checking milestones:', error);
+  }
+};
+
+// Milestones a campaign or reason has reached, oldest first
+export const listReachedMilestones = async (type: MilestoneSubject, id: Id) =>
+  Milestone.find({ subject_type: type, subject_id: id }).sort({ percent: 1 }).lean();
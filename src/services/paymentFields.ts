@@ -0,0 +1,278 @@
+import mongoose from 'mongoose';
+import PaymentMethod, { IPaymentMethodField, PAYMENT_FIELD_TYPES } from '../models/PaymentMethod';
+import { IDonationEdit, IPaymentDetail } from '../models/Donation';
+import { decryptField, encryptField, maskValue } from '../utils/fieldEncryption';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const EMAIL_REGEX = /^\S+@\S+\.\S+$/;
+const FIELD_KEY_REGEX = /^[a-z][a-z0-9_]*$/;
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+// Check an admin-supplied field list before it is saved on a PaymentMethod.
+// Returns an empty array when the definitions are usable.
+export const validateFieldDefinitions = (fields: any): FieldError[] => {
+  if (!Array.isArray(fields)) {
+    return [{ field: 'fields', message: 'Fields must be an array' }];
+  }
+
+  const errors: FieldError[] = [];
+  const seenKeys = new Set<string>();
+
+  fields.forEach((field: any, index: number) => {
+    const path = `fields[${index}]`;
+    if (!field || typeof field !== 'object') {
+      errors.push({ field: path, message: 'Field definition must be an object' });
+      return;
+    }
+
+    if (typeof field.key !== 'string' || !FIELD_KEY_REGEX.test(field.key)) {
+      errors.push({ field: `${path}.key`, message: 'Field key must be lowercase letters, digits and underscores' });
+    } else if (seenKeys.has(field.key)) {
+      errors.push({ field: `${path}.key`, message: `Duplicate field key: ${field.key}` });
+    } else {
+      seenKeys.add(field.key);
+    }
+
+    if (typeof field.label !== 'string' || field.label.trim().length === 0) {
+      errors.push({ field: `${path}.label`, message: 'Field label is required' });
+    }
+
+    if (!PAYMENT_FIELD_TYPES.includes(field.type)) {
+      errors.push({ field: `${path}.type`, message: `Field type must be one of: ${PAYMENT_FIELD_TYPES.join(', ')}` });
+    }
+
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      errors.push({ field: `${path}.required`, message: 'Field required flag must be boolean' });
+    }
+
+    if (field.pattern !== undefined && field.pattern !== null && field.pattern !== '') {
+      if (typeof field.pattern !== 'string' || !compilePattern(field.pattern)) {
+        errors.push({ field: `${path}.pattern`, message: 'Field pattern must be a valid regular expression' });
+      }
+    }
+
+    if (field.max_length !== undefined && field.max_length !== null) {
+      if (!Number.isInteger(field.max_length) || field.max_length < 1) {
+        errors.push({ field: `${path}.max_length`, message: 'Field max length must be a positive integer' });
+      }
+    }
+
+    if (field.sensitive !== undefined && typeof field.sensitive !== 'boolean') {
+      errors.push({ field: `${path}.sensitive`, message: 'Field sensitive flag must be boolean' });
+    }
+
+    if (field.type === 'select') {
+      const options = field.options;
+      if (!Array.isArray(options) || options.length === 0 || options.some((o: any) => typeof o !== 'string')) {
+        errors.push({ field: `${path}.options`, message: 'Select fields need a non-empty list of string options' });
+      }
+    }
+  });
+
+  return errors;
+};
+
+// Keep only the properties we store for each field
+export const normalizeFieldDefinitions = (fields: any[]): IPaymentMethodField[] =>
+  fields.map((field) => ({
+    key: field.key,
+    label: field.label.trim(),
+    type: field.type,
+    required: field.required === true,
+    pattern: field.pattern || undefined,
+    max_length: field.max_length || undefined,
+    options: field.type === 'select' ? field.options : undefined,
+    sensitive: field.sensitive === true,
+  }));
+
+// Validate submitted values against a method's field list.
+// `values` holds text inputs by key, `files` holds stored upload paths by key.
+// Keys that the method does not define are dropped. `deferRequired` lets
+// required fields stay empty, for donations the donor completes later.
+export const validatePaymentDetails = (
+  fields: IPaymentMethodField[],
+  values: Record<string, any>,
+  files: Record<string, string> = {},
+  options: { deferRequired?: boolean } = {}
+): { details: Record<string, IPaymentDetail>; errors: FieldError[] } => {
+  const details: Record<string, IPaymentDetail> = {};
+  const errors: FieldError[] = [];
+
+  for (const field of fields) {
+    const raw = field.type === 'file' ? files[field.key] : values[field.key];
+    const str = raw === undefined || raw === null ? '' : String(raw).trim();
+
+    if (str.length === 0) {
+      if (field.required && !options.deferRequired) {
+        errors.push({ field: field.key, message: `${field.label} is required` });
+      }
+      continue;
+    }
+
+    if (field.type !== 'file') {
+      if (field.max_length && str.length > field.max_length) {
+        errors.push({ field: field.key, message: `${field.label} cannot exceed ${field.max_length} characters` });
+        continue;
+      }
+
+      if (field.type === 'email' && !EMAIL_REGEX.test(str)) {
+        errors.push({ field: field.key, message: `${field.label} must be a valid email` });
+        continue;
+      }
+
+      if (field.type === 'number' && !Number.isFinite(Number(str))) {
+        errors.push({ field: field.key, message: `${field.label} must be a number` });
+        continue;
+      }
+
+      if (field.type === 'select' && !(field.options || []).includes(str)) {
+        errors.push({ field: field.key, message: `${field.label} must be one of: ${(field.options || []).join(', ')}` });
+        continue;
+      }
+
+      const pattern = field.pattern ? compilePattern(field.pattern) : null;
+      if (pattern && !pattern.test(str)) {
+        errors.push({ field: field.key, message: `${field.label} has an invalid format` });
+        continue;
+      }
+    }
+
+    details[field.key] = {
+      label: field.label,
+      type: field.type,
+      value: field.type === 'number' ? Number(str) : str,
+      ...(field.sensitive && { sensitive: true }),
+    };
+  }
+
+  return { details, errors };
+};
+
+// Plain-object view of Donation.payment_details for API responses.
+// Works for both hydrated documents (Map) and lean results (object).
+export const serializePaymentDetails = (
+  details?: Map<string, IPaymentDetail> | Record<string, IPaymentDetail> | null
+): Record<string, IPaymentDetail> => {
+  if (!details) return {};
+  if (details instanceof Map) {
+    return Object.fromEntries(details.entries());
+  }
+  return { ...details };
+};
+
+// Encrypt every submitted value except file keys before the donation is saved
+export const encryptPaymentDetails = (
+  details?: Record<string, IPaymentDetail>
+): Record<string, IPaymentDetail> | undefined => {
+  if (!details) return undefined;
+  return Object.fromEntries(
+    Object.entries(details).map(([key, detail]) => [
+      key,
+      detail.type === 'file' ? detail : { ...detail, value: encryptField(String(detail.value)) },
+    ])
+  );
+};
+
+export type PresentedPaymentDetail = IPaymentDetail & { masked?: boolean };
+
+export interface PresentOptions {
+  reveal?: boolean;
+  sensitiveKeys?: Set<string>; // Keys the payment method currently marks sensitive
+}
+
+// Keys of the sensitive fields on each payment method, by method id. Details
+// saved before a field was marked sensitive carry no flag of their own, so
+// responses mask by the method's current definition as well.
+export const loadSensitiveKeys = async (
+  methodIds: (mongoose.Types.ObjectId | string | undefined | null)[]
+): Promise<Map<string, Set<string>>> => {
+  const ids = [...new Set(methodIds.filter((id) => id && mongoose.isValidObjectId(id)).map(String))];
+  const methods = ids.length > 0
+    ? await PaymentMethod.find({ _id: { $in: ids } }).select('fields').lean()
+    : [];
+
+  return new Map(methods.map((method) => [
+    method._id.toString(),
+    new Set((method.fields || []).filter((field) => field.sensitive).map((field) => field.key)),
+  ]));
+};
+
+// Decrypted view of payment_details for API responses. Sensitive values are
+// masked unless `reveal` is set, which only the audited admin reveal does.
+export const presentPaymentDetails = (
+  details?: Map<string, IPaymentDetail> | Record<string, IPaymentDetail> | null,
+  options: PresentOptions = {}
+): Record<string, PresentedPaymentDetail> => {
+  const presented: Record<string, PresentedPaymentDetail> = {};
+
+  for (const [key, detail] of Object.entries(serializePaymentDetails(details))) {
+    if (detail.type === 'file') {
+      presented[key] = detail;
+      continue;
+    }
+
+    let value: string;
+    try {
+      value = decryptField(String(detail.value));
+    } catch (error) {
+      console.error(`Error decrypting payment detail ${key}:`, error);
+      presented[key] = { ...detail, value: '', masked: true };
+      continue;
+    }
+
+    if ((detail.sensitive || options.sensitiveKeys?.has(key)) && !options.reveal) {
+      presented[key] = { ...detail, value: maskValue(value), sensitive: true, masked: true };
+    } else {
+      presented[key] = { ...detail, value: detail.type === 'number' ? Number(value) : value };
+    }
+  }
+
+  return presented;
+};
+
+// Decrypted view of a donation's edit history. Changed payment detail values
+// are masked the same way presentPaymentDetails masks them.
+export const presentEditHistory = (
+  history: IDonationEdit[] | undefined,
+  options: PresentOptions = {}
+) =>
+  (history || []).map((edit) => ({
+    editor: edit.editor?.toString(),
+    edited_at: edit.edited_at.toISOString(),
+    changes: edit.changes.map((change) => {
+      if (!change.field.startsWith('payment_details.')) {
+        return { field: change.field, from: change.from, to: change.to };
+      }
+
+      const key = change.field.slice('payment_details.'.length);
+      const sensitive = change.sensitive || !!options.sensitiveKeys?.has(key);
+      const present = (value: any) => {
+        if (value === undefined || value === null) return value;
+        try {
+          const plain = decryptField(String(value));
+          return sensitive && !options.reveal ? maskValue(plain) : plain;
+        } catch (error) {
+          console.error(`Error decrypting edit history for ${change.field}:`, error);
+          return undefined;
+        }
+      };
+
+      return {
+        field: change.field,
+        from: present(change.from),
+        to: present(change.to),
+        ...(sensitive && !options.reveal && { masked: true }),
+      };
+    }),
+  }));
@@ -0,0 +1,433 @@
+import mongoose from 'mongoose';
+import Campaign from '../models/Campaign';
+import { IDonation } from '../models/Donation';
+import PaymentMethod from '../models/PaymentMethod';
+import Pledge, { IPledge, PledgeCadence, PLEDGE_CADENCES } from '../models/Pledge';
+import User from '../models/User';
+import { queueMail } from '../mailer';
+import { getIO } from '../socket/io';
+import { HttpError, isHttpError } from '../utils/errors';
+import { isAcceptingDonations, resolveCampaignForDonation } from './campaignService';
+import { checkDonationAmount } from './amountLimits';
+import { createDonation, CreateDonationInput, validateCreateDonationInput } from './donationService';
+
+type Id = mongoose.Types.ObjectId | string;
+
+const POLL_INTERVAL_MS = parseInt(process.env.PLEDGE_POLL_INTERVAL_MS || '', 10) || 60000;
+const STALE_LOCK_MS = 10 * 60000; // Retry pledges a crashed run left locked
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+export interface PledgeInput extends CreateDonationInput {
+  cadence?: any;
+  next_due_at?: any;
+}
+
+// The due date after `from`. Monthly pledges keep their day of the month,
+// falling back to the last day in shorter months.
+export const nextDueDate = (from: Date, cadence: PledgeCadence, anchorDay: number): Date => {
+  if (cadence === 'weekly') {
+    return new Date(from.getTime() + 7 * DAY_MS);
+  }
+
+  const next = new Date(from);
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth() + 1;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  next.setUTCFullYear(year, month, Math.min(anchorDay, lastDay));
+  return next;
+};
+
+// First due date on or after `now`. Periods missed while paused or while the
+// server was down are skipped rather than billed all at once.
+const catchUp = (dueAt: Date, cadence: PledgeCadence, anchorDay: number, now: Date): Date => {
+  let next = dueAt;
+  while (next < now) {
+    next = nextDueDate(next, cadence, anchorDay);
+  }
+  return next;
+};
+
+const checkPaymentMethod = async (paymentMethodId?: string): Promise<void> => {
+  if (!paymentMethodId) return;
+
+  const method = await PaymentMethod.findById(paymentMethodId).lean();
+  if (!method || !method.is_active) {
+    throw new HttpError(400, 'Selected payment method is not available', {
+      errors: [{ field: 'payment_method_id', message: 'Selected payment method is not available' }],
+    });
+  }
+};
+
+// Validate the pledge-only fields. Donation fields (amount, message, reason,
+// ...) go through the same checks as a one-off donation.
+const validatePledgeInput = (input: PledgeInput, now: Date) => {
+  const data = validateCreateDonationInput(input);
+
+  if (!PLEDGE_CADENCES.includes(input.cadence)) {
+    throw new HttpError(400, 'Cadence must be weekly or monthly', {
+      errors: [{ field: 'cadence', message: 'Cadence must be weekly or monthly' }],
+    });
+  }
+
+  let nextDueAt = now;
+  if (input.next_due_at !== undefined && input.next_due_at !== '') {
+    nextDueAt = new Date(input.next_due_at);
+    // Allow "today" from clients that send a date without a time
+    if (Number.isNaN(nextDueAt.getTime()) || nextDueAt.getTime() < now.getTime() - DAY_MS) {
+      throw new HttpError(400, 'Next due date must be a valid date that is not in the past', {
+        errors: [{ field: 'next_due_at', message: 'Next due date must be a valid date that is not in the past' }],
+      });
+    }
+  }
+
+  return { ...data, cadence: input.cadence as PledgeCadence, next_due_at: nextDueAt };
+};
+
+const findOwnPledge = async (pledgeId: Id, userId: Id): Promise<IPledge> => {
+  const pledge = mongoose.isValidObjectId(pledgeId) ? await Pledge.findById(pledgeId) : null;
+  if (!pledge || pledge.user_id.toString() !== userId.toString()) {
+    throw new HttpError(404, 'Pledge not found');
+  }
+  return pledge;
+};
+
+export const formatPledge = (pledge: any) => ({
+  id: pledge._id.toString(),
+  amount: pledge.amount,
+  currency: pledge.currency,
+  cadence: pledge.cadence,
+  next_due_at: pledge.status === 'active' ? pledge.next_due_at.toISOString() : undefined,
+  status: pledge.status,
+  payment_method_id: pledge.payment_method_id?.toString(),
+  reason_id: pledge.reason_id?.toString(),
+  campaign_id: pledge.campaign_id?.toString(),
+  message: pledge.message,
+  is_anonymous: pledge.is_anonymous,
+  donations_created: pledge.donations_created,
+  last_donation_id: pledge.last_donation_id?.toString(),
+  paused_at: pledge.paused_at?.toISOString(),
+  failure_reason: pledge.failure_reason,
+  failed_at: pledge.failed_at?.toISOString(),
+  cancelled_at: pledge.cancelled_at?.toISOString(),
+  created_at: pledge.created_at.toISOString(),
+  updated_at: pledge.updated_at.toISOString(),
+});
+
+export const listPledges = async (userId: Id) =>
+  Pledge.find({ user_id: userId }).sort({ created_at: -1 }).lean();
+
+// Set up a recurring donation. The first one falls due on `next_due_at`
+// (default: now).
+export const createPledge = async (userId: Id, input: PledgeInput): Promise<IPledge> => {
+  const data = validatePledgeInput(input, new Date());
+  await checkDonationAmount(data.amount, data);
+  await resolveCampaignForDonation(data.campaign_id);
+  await checkPaymentMethod(data.payment_method_id);
+
+  return Pledge.create({
+    user_id: userId,
+    ...data,
+    anchor_day: data.next_due_at.getUTCDate(),
+  });
+};
+
+// Change an active or paused pledge. Omitted fields keep their current value.
+export const updatePledge = async (pledgeId: Id, userId: Id, input: PledgeInput): Promise<IPledge> => {
+  const pledge = await findOwnPledge(pledgeId, userId);
+  if (pledge.status === 'cancelled') {
+    throw new HttpError(409, 'Cancelled pledges cannot be changed', { status: pledge.status });
+  }
+
+  const data = validatePledgeInput(
+    {
+      amount: input.amount ?? pledge.amount,
+      currency: input.currency ?? pledge.currency,
+      cadence: input.cadence ?? pledge.cadence,
+      next_due_at: input.next_due_at ?? pledge.next_due_at,
+      message: input.message !== undefined ? input.message : pledge.message,
+      is_anonymous: input.is_anonymous ?? pledge.is_anonymous,
+      reason_id: input.reason_id !== undefined ? input.reason_id : pledge.reason_id?.toString(),
+      campaign_id: input.campaign_id !== undefined ? input.campaign_id : pledge.campaign_id?.toString(),
+      payment_method_id: input.payment_method_id !== undefined
+        ? input.payment_method_id
+        : pledge.payment_method_id?.toString(),
+    },
+    // An unchanged due date may already have passed while the pledge was paused
+    input.next_due_at !== undefined ? new Date() : pledge.next_due_at
+  );
+  if (
+    data.amount !== pledge.amount ||
+    data.currency !== pledge.currency ||
+    data.payment_method_id !== pledge.payment_method_id?.toString() ||
+    data.reason_id !== pledge.reason_id?.toString()
+  ) {
+    await checkDonationAmount(data.amount, data);
+  }
+  if (input.campaign_id !== undefined && data.campaign_id !== pledge.campaign_id?.toString()) {
+    await resolveCampaignForDonation(data.campaign_id);
+  }
+  if (input.payment_method_id !== undefined && data.payment_method_id !== pledge.payment_method_id?.toString()) {
+    await checkPaymentMethod(data.payment_method_id);
+  }
+
+  // Cleared optional fields have to be unset explicitly
+  const set: Record<string, any> = {
+    amount: data.amount,
+    currency: data.currency,
+    cadence: data.cadence,
+    next_due_at: data.next_due_at,
+    is_anonymous: data.is_anonymous,
+  };
+  const unset: Record<string, 1> = {};
+  for (const field of ['message', 'reason_id', 'campaign_id', 'payment_method_id'] as const) {
+    if (data[field] === undefined) {
+      unset[field] = 1;
+    } else {
+      set[field] = data[field];
+    }
+  }
+  if (input.next_due_at !== undefined || input.cadence !== undefined) {
+    set.anchor_day = data.next_due_at.getUTCDate();
+  }
+
+  const updated = await Pledge.findOneAndUpdate(
+    { _id: pledge._id, status: { $ne: 'cancelled' } },
+    { $set: set, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+    { new: true }
+  );
+  if (!updated) {
+    throw new HttpError(409, 'Pledge was cancelled by another request');
+  }
+  return updated;
+};
+
+// Pause, resume or cancel a pledge. Resuming skips due dates missed while
+// paused.
+export const changePledgeStatus = async (
+  pledgeId: Id,
+  userId: Id,
+  action: 'pause' | 'resume' | 'cancel'
+): Promise<IPledge> => {
+  const pledge = await findOwnPledge(pledgeId, userId);
+  const now = new Date();
+
+  const allowed = { pause: ['active'], resume: ['paused'], cancel: ['active', 'paused'] }[action];
+  if (!allowed.includes(pledge.status)) {
+    throw new HttpError(409, `Cannot ${action} a ${pledge.status} pledge`, { status: pledge.status });
+  }
+
+  const update = {
+    pause: { $set: { status: 'paused', paused_at: now } },
+    resume: {
+      $set: { status: 'active', next_due_at: catchUp(pledge.next_due_at, pledge.cadence, pledge.anchor_day, now) },
+      $unset: { paused_at: 1, failure_reason: 1, failed_at: 1 },
+    },
+    cancel: { $set: { status: 'cancelled', cancelled_at: now } },
+  }[action];
+
+  const updated = await Pledge.findOneAndUpdate(
+    { _id: pledge._id, status: pledge.status },
+    update,
+    { new: true }
+  );
+  if (!updated) {
+    throw new HttpError(409, 'Pledge was changed by another request. Please retry.');
+  }
+  return updated;
+};
+
+// Email and socket the donor about a donation created from their pledge.
+// createDonation has already told the admins. Failures are logged, never
+// thrown.
+const notifyPledgeDonation = async (pledge: IPledge, donation: IDonation): Promise<void> => {
+  const io = getIO();
+  if (io) {
+    io.to(`user:${pledge.user_id}`).emit('pledge:donation-created', {
+      pledge_id: pledge._id,
+      donation_id: donation._id,
+      amount: donation.amount,
+      due_at: donation.pledge_due_at,
+    });
+  }
+
+  try {
+    const user = await User.findById(pledge.user_id).select('email full_name').lean();
+    if (!user) return;
+
+    await queueMail(user.email, 'pledge_payment_due', {
+      full_name: user.full_name,
+      amount: donation.amount,
+      currency: donation.currency,
+      donation_id: donation._id.toString(),
+      cadence: pledge.cadence,
+    });
+  } catch (error) {
+    console.error('Error notifying donor of pledge donation:', error);
+  }
+};
+
+// Campaigns that stopped accepting donations are left off new donations
+const campaignForDonation = async (campaignId?: mongoose.Types.ObjectId) => {
+  if (!campaignId) return undefined;
+  const campaign = await Campaign.findById(campaignId).lean();
+  return campaign && isAcceptingDonations(campaign) ? campaign._id : undefined;
+};
+
+// Donors can lose their verified status, e.g. by changing their email
+const checkPledgeDonor = async (userId: mongoose.Types.ObjectId): Promise<void> => {
+  const user = await User.findById(userId).select('is_verified').lean();
+  if (!user?.is_verified) {
+    throw new HttpError(403, 'Please verify your email address to continue', { code: 'EMAIL_NOT_VERIFIED' });
+  }
+};
+
+// A due donation the API would reject pauses the pledge until the donor
+// fixes it and resumes. The failure is kept on the pledge and the donor is
+// told. Failures to notify are logged, never thrown.
+const pauseFailedPledge = async (pledge: IPledge, error: HttpError, now: Date): Promise<void> => {
+  const paused = await Pledge.findOneAndUpdate(
+    { _id: pledge._id, locked_at: pledge.locked_at, status: 'active' },
+    {
+      $set: { status: 'paused', paused_at: now, failure_reason: error.message, failed_at: now, last_run_at: now },
+      $unset: { locked_at: 1 },
+    },
+    { new: true }
+  );
+  if (!paused) return;
+
+  const io = getIO();
+  if (io) {
+    io.to(`user:${pledge.user_id}`).emit('pledge:paused', {
+      pledge_id: pledge._id,
+      reason: error.message,
+      failed_at: now,
+    });
+  }
+
+  try {
+    const user = await User.findById(pledge.user_id).select('email full_name').lean();
+    if (!user) return;
+
+    await queueMail(user.email, 'pledge_paused', {
+      full_name: user.full_name,
+      amount: pledge.amount,
+      currency: pledge.currency,
+      cadence: pledge.cadence,
+      reason: error.message,
+    });
+  } catch (notifyError) {
+    console.error('Error notifying donor of paused pledge:', notifyError);
+  }
+};
+
+// Create the pending donation for a claimed pledge's current due date and
+// move the pledge to its next one. The donation goes through createDonation,
+// so it has to pass the same checks as POST /api/donations except for
+// required payment details, which the donor adds afterwards.
+const runPledge = async (pledge: IPledge, now: Date): Promise<boolean> => {
+  const dueAt = pledge.next_due_at;
+
+  let donation: IDonation | null = null;
+  try {
+    await checkPledgeDonor(pledge.user_id);
+    donation = await createDonation(
+      pledge.user_id,
+      {
+        amount: pledge.amount,
+        currency: pledge.currency,
+        message: pledge.message,
+        is_anonymous: pledge.is_anonymous,
+        reason_id: pledge.reason_id?.toString(),
+        campaign_id: (await campaignForDonation(pledge.campaign_id))?.toString(),
+        payment_method_id: pledge.payment_method_id?.toString(),
+      },
+      { pledge: { pledge_id: pledge._id, due_at: dueAt } }
+    );
+  } catch (error: any) {
+    if (isHttpError(error)) {
+      await pauseFailedPledge(pledge, error, now);
+      return false;
+    }
+    // Created by an earlier run that died before moving the pledge on
+    if (error?.code !== 11000) throw error;
+  }
+
+  await Pledge.updateOne(
+    { _id: pledge._id, locked_at: pledge.locked_at },
+    {
+      $set: {
+        next_due_at: catchUp(nextDueDate(dueAt, pledge.cadence, pledge.anchor_day), pledge.cadence, pledge.anchor_day, now),
+        last_run_at: now,
+        ...(donation && { last_donation_id: donation._id }),
+      },
+      $unset: { locked_at: 1 },
+      ...(donation && { $inc: { donations_created: 1 } }),
+    }
+  );
+
+  if (donation) {
+    await notifyPledgeDonation(pledge, donation);
+  }
+  return !!donation;
+};
+
+const claimDuePledge = async (now: Date): Promise<IPledge | null> =>
+  Pledge.findOneAndUpdate(
+    {
+      status: 'active',
+      next_due_at: { $lte: now },
+      $or: [
+        { locked_at: { $exists: false } },
+        { locked_at: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } },
+      ],
+    },
+    { $set: { locked_at: now } },
+    { sort: { next_due_at: 1 }, new: true }
+  );
+
+// Create a pending donation for every pledge that is due. Returns the number
+// of donations created.
+export const processDuePledges = async (): Promise<number> => {
+  if (processing) return 0;
+  processing = true;
+
+  let created = 0;
+  const now = new Date();
+  try {
+    let pledge = await claimDuePledge(now);
+    while (pledge) {
+      try {
+        if (await runPledge(pledge, now)) created++;
+      } catch (error) {
+        // Stays locked, so it is retried once the lock goes stale
+        console.error(`Error running pledge ${pledge._id}:`, error);
+      }
+      pledge = await claimDuePledge(now);
+    }
+  } catch (error) {
+    console.error('Error processing pledges:', error);
+  } finally {
+    processing = false;
+  }
+
+  return created;
+};
+
+export const startPledgeScheduler = (): void => {
+  if (schedulerTimer) return;
+  console.log('🔁 Pledge scheduler started');
+  schedulerTimer = setInterval(() => {
+    processDuePledges();
+  }, POLL_INTERVAL_MS);
+  schedulerTimer.unref();
+};
+
+export const stopPledgeScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
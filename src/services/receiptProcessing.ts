@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { HttpError } from '../utils/errors';
+import { AcceptedFileType, detectFileType, FILE_TYPE_INFO } from '../utils/fileType';
+
+const MAX_IMAGE_PIXELS = 40_000_000; // ~40 megapixels
+const THUMBNAIL_SIZE = 320;
+
+// PDF features that can run code or carry other files. Receipts never need them.
+const PDF_ACTIVE_CONTENT = ['/JavaScript', '/JS', '/Launch', '/EmbeddedFile', '/RichMedia', '/XFA'];
+
+export interface ProcessedReceipt {
+  buffer: Buffer;
+  type: AcceptedFileType;
+  extension: string;
+  content_type: string;
+  thumbnail?: Buffer; // JPEG, images only
+}
+
+const unsupported = (field?: string, message?: string) =>
+  new HttpError(415, message || 'Unsupported file type. Upload a JPEG, PNG, WebP or PDF file', {
+    code: 'UNSUPPORTED_MEDIA_TYPE',
+    field,
+  });
+
+// Decode and re-encode an image. Re-encoding drops anything that is not
+// pixel data (EXIF, GPS, comments, trailing payloads); `rotate()` bakes the
+// EXIF orientation in first so the image still displays the right way up.
+const sanitizeImage = async (
+  buffer: Buffer,
+  type: Exclude<AcceptedFileType, 'pdf'>,
+  field?: string
+): Promise<ProcessedReceipt> => {
+  // Only the header is read here; pixels are decoded after the size check
+  const image = sharp(buffer, { failOn: 'error', limitInputPixels: false }).rotate();
+  const metadata = await image.metadata().catch(() => {
+    throw unsupported(field, 'The uploaded image could not be read');
+  });
+
+  if ((metadata.width || 0) * (metadata.height || 0) > MAX_IMAGE_PIXELS) {
+    throw new HttpError(413, 'Image dimensions are too large', { code: 'PAYLOAD_TOO_LARGE', field });
+  }
+
+  try {
+    let output: Buffer;
+    if (type === 'png') {
+      output = await image.png({ compressionLevel: 9 }).toBuffer();
+    } else if (type === 'webp') {
+      output = await image.webp({ quality: 85 }).toBuffer();
+    } else {
+      output = await image.jpeg({ quality: 85, mozjpeg: true }).toBuffer();
+    }
+
+    const thumbnail = await sharp(output)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+
+    return { buffer: output, type, ...FILE_TYPE_INFO[type], thumbnail };
+  } catch {
+    throw unsupported(field, 'The uploaded image could not be processed');
+  }
+};
+
+const checkPdf = (buffer: Buffer, field?: string): ProcessedReceipt => {
+  const text = buffer.toString('latin1');
+  if (!text.includes('%%EOF')) {
+    throw unsupported(field, 'The uploaded PDF is incomplete or damaged');
+  }
+  if (PDF_ACTIVE_CONTENT.some((marker) => new RegExp(`${marker}[\\s/<(\\[]`).test(text))) {
+    throw unsupported(field, 'PDFs with scripts, attachments or forms are not accepted');
+  }
+
+  return { buffer, type: 'pdf', ...FILE_TYPE_INFO.pdf };
+};
+
+// Check an upload by content and return a cleaned copy safe to store.
+// Throws 415 for anything that is not a readable JPEG, PNG, WebP or PDF.
+export const processReceipt = async (buffer: Buffer, field?: string): Promise<ProcessedReceipt> => {
+  const type = detectFileType(buffer);
+  if (!type) {
+    throw unsupported(field);
+  }
+  if (type === 'heic') {
+    throw unsupported(field, 'HEIC images are not supported. Convert the photo to JPEG and upload it again');
+  }
+
+  if (type === 'pdf') {
+    return checkPdf(buffer, field);
+  }
+  return sanitizeImage(buffer, type, field);
+};
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { IPaymentDetail } from '../models/Donation';
+import { getStorage, StoredFile } from '../storage';
+import { presentPaymentDetails, PresentedPaymentDetail } from './paymentFields';
+import { processReceipt } from './receiptProcessing';
+
+// Receipts and other payment attachments live in the configured FileStorage
+// (see src/storage). They are only served through
+// GET /api/donations/:id/attachments/:key, either with an Authorization
+// header or with a short-lived signed URL.
+
+const RECEIPT_PREFIX = 'receipts/';
+
+const getUrlTtlSeconds = (): number =>
+  parseInt(process.env.ATTACHMENT_URL_TTL_SECONDS || '', 10) || 300;
+
+const getSigningSecret = (): string => {
+  const secret = process.env.FILE_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('FILE_URL_SECRET or JWT_SECRET must be defined to sign attachment URLs');
+  }
+  return secret;
+};
+
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+// Images get a JPEG thumbnail stored next to them
+export const thumbnailKey = (key: string): string => key.replace(/\.[^./]+$/, '') + '.thumb.jpg';
+
+export const hasThumbnail = (key: string): boolean => /\.(jpg|png|webp)$/.test(key);
+
+export interface SavedReceipt {
+  key: string; // Storage key, the value kept in Donation.payment_details
+  content_type: string;
+  size: number;
+}
+
+// Validate and sanitize an upload (see receiptProcessing.ts) and store it.
+// `field` names the form field in 415/413 errors.
+export const saveReceipt = async (buffer: Buffer, field?: string): Promise<SavedReceipt> => {
+  const processed = await processReceipt(buffer, field);
+
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const key = `${RECEIPT_PREFIX}${now.getUTCFullYear()}/${month}/${crypto.randomUUID()}${processed.extension}`;
+
+  await getStorage().put(key, processed.buffer, { content_type: processed.content_type });
+  if (processed.thumbnail) {
+    await getStorage().put(thumbnailKey(key), processed.thumbnail, { content_type: 'image/jpeg' });
+  }
+  return { key, content_type: processed.content_type, size: processed.buffer.length };
+};
+
+export const deleteReceipt = async (key: string): Promise<void> => {
+  try {
+    await getStorage().delete(key);
+    if (hasThumbnail(key)) {
+      await getStorage().delete(thumbnailKey(key));
+    }
+  } catch (error) {
+    console.error(`Error deleting receipt ${key}:`, error);
+  }
+};
+
+// Donations created before storage keys hold "/uploads/<filename>" or a bare
+// filename. Those need `yarn migrate-receipts` before they can be served.
+export const isStorageKey = (value: string): boolean => value.startsWith(RECEIPT_PREFIX);
+
+export const openReceipt = async (
+  key: string,
+  variant: AttachmentVariant = 'original'
+): Promise<StoredFile | null> => {
+  if (!isStorageKey(key)) return null;
+  if (variant === 'thumbnail') {
+    return hasThumbnail(key) ? getStorage().get(thumbnailKey(key)) : null;
+  }
+  return getStorage().get(key);
+};
+
+const sign = (donationId: string, key: string, variant: AttachmentVariant, expires: number): string =>
+  crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${donationId}:${key}:${variant}:${expires}`)
+    .digest('hex');
+
+export const createAttachmentUrl = (
+  donationId: string,
+  key: string,
+  variant: AttachmentVariant = 'original'
+): { url: string; expires_at: string } => {
+  const expires = Math.floor(Date.now() / 1000) + getUrlTtlSeconds();
+  const params = new URLSearchParams({ expires: String(expires), signature: sign(donationId, key, variant, expires) });
+  const suffix = variant === 'thumbnail' ? '/thumbnail' : '';
+
+  return {
+    url: `/api/donations/${donationId}/attachments/${encodeURIComponent(key)}${suffix}?${params.toString()}`,
+    expires_at: new Date(expires * 1000).toISOString(),
+  };
+};
+
+export const verifyAttachmentSignature = (
+  donationId: string,
+  key: string,
+  variant: AttachmentVariant,
+  expires: string,
+  signature: string
+): boolean => {
+  const expiresAt = parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(donationId, key, variant, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+type DetailWithUrls = PresentedPaymentDetail & { url?: string; thumbnail_url?: string };
+
+// presentPaymentDetails plus signed `url` (and `thumbnail_url` for images)
+// on every file field, for responses going to users who are allowed to see
+// the attachments
+export const serializeWithAttachmentUrls = (
+  donationId: string,
+  details?: Map<string, IPaymentDetail> | Record<string, IPaymentDetail> | null,
+  sensitiveKeys?: Set<string>
+): Record<string, DetailWithUrls> => {
+  const serialized: Record<string, DetailWithUrls> = presentPaymentDetails(details, { sensitiveKeys });
+  for (const [key, detail] of Object.entries(serialized)) {
+    if (detail.type === 'file') {
+      serialized[key] = {
+        ...detail,
+        url: createAttachmentUrl(donationId, key).url,
+        thumbnail_url: isStorageKey(String(detail.value)) && hasThumbnail(String(detail.value))
+          ? createAttachmentUrl(donationId, key, 'thumbnail').url
+          : undefined,
+      };
+    }
+  }
+  return serialized;
+};
@@ -0,0 +1,262 @@
+import mongoose from 'mongoose';
+import Donation, { IDonation } from '../models/Donation';
+import DonationNote, { IDonationNote } from '../models/DonationNote';
+import User from '../models/User';
+import { hasPermission, ROLES } from '../config/permissions';
+import { getIO } from '../socket/io';
+import { HttpError } from '../utils/errors';
+import { DonationClaimedError, isClaimedByOther } from './donationLifecycle';
+import { changeDonationStatus, resolveDeclineReason } from './donationService';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export type ReviewDecision = 'approve' | 'decline';
+
+const DECISION_STATUS = {
+  approve: 'confirmed',
+  decline: 'cancelled',
+} as const;
+
+const getClaimTimeoutMs = (): number =>
+  (parseInt(process.env.REVIEW_CLAIM_MINUTES || '', 10) || 15) * 60000;
+
+const STATS_WINDOW_DAYS = 30;
+
+// Roles whose status changes count as review decisions in the queue stats
+const REVIEWER_ROLES = ROLES.filter((role) => hasPermission(role, 'donations:review'));
+
+// Let other admins' dashboards know who is working on what
+const emitQueueUpdated = (donationId: Id, event: 'claimed' | 'released' | 'decided', actor: Id): void => {
+  const io = getIO();
+  if (!io) return;
+  io.to('admin').emit('queue:updated', {
+    donation_id: donationId.toString(),
+    event,
+    actor: actor.toString(),
+  });
+};
+
+const claimUpdate = (adminId: Id) => {
+  const now = new Date();
+  return {
+    $set: {
+      claimed_by: adminId,
+      claimed_at: now,
+      claim_expires_at: new Date(now.getTime() + getClaimTimeoutMs()),
+    },
+  };
+};
+
+// Pending donations nobody holds an active claim on
+const availableFilter = () => ({
+  status: 'pending',
+  $or: [{ claimed_by: null }, { claim_expires_at: { $lte: new Date() } }],
+});
+
+// Claim the oldest available pending donation. An admin works on one
+// donation at a time: if they already hold a claim, that donation is returned
+// (with the claim renewed). Returns null when the queue is empty.
+export const claimNextDonation = async (adminId: Id): Promise<IDonation | null> => {
+  const current = await Donation.findOneAndUpdate(
+    { status: 'pending', claimed_by: adminId, claim_expires_at: { $gt: new Date() } },
+    claimUpdate(adminId),
+    { new: true }
+  );
+  if (current) {
+    return current;
+  }
+
+  // The filter and update run as one operation, so two admins can never
+  // claim the same donation
+  const donation = await Donation.findOneAndUpdate(availableFilter(), claimUpdate(adminId), {
+    sort: { created_at: 1 },
+    new: true,
+  });
+
+  if (donation) {
+    emitQueueUpdated(donation._id, 'claimed', adminId);
+  }
+  return donation;
+};
+
+// Claim a specific pending donation, or renew your own claim on it
+export const claimDonation = async (donationId: Id, adminId: Id): Promise<IDonation> => {
+  if (!mongoose.isValidObjectId(donationId)) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const donation = await Donation.findOneAndUpdate(
+    {
+      _id: donationId,
+      status: 'pending',
+      $or: [
+        { claimed_by: null },
+        { claimed_by: adminId },
+        { claim_expires_at: { $lte: new Date() } },
+      ],
+    },
+    claimUpdate(adminId),
+    { new: true }
+  );
+
+  if (!donation) {
+    const existing = await Donation.findById(donationId);
+    if (!existing) {
+      throw new HttpError(404, 'Donation not found');
+    }
+    if (existing.status !== 'pending') {
+      throw new HttpError(409, `Donation is already ${existing.status}`);
+    }
+    throw new DonationClaimedError(existing);
+  }
+
+  emitQueueUpdated(donation._id, 'claimed', adminId);
+  return donation;
+};
+
+// Give up a claim so the donation goes back to the queue
+export const releaseClaim = async (donationId: Id, adminId: Id): Promise<void> => {
+  if (!mongoose.isValidObjectId(donationId)) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const result = await Donation.updateOne(
+    { _id: donationId, claimed_by: adminId },
+    { $unset: { claimed_by: 1, claimed_at: 1, claim_expires_at: 1 } }
+  );
+  if (result.modifiedCount === 0) {
+    throw new HttpError(409, 'You do not hold a claim on this donation');
+  }
+
+  emitQueueUpdated(donationId, 'released', adminId);
+};
+
+// Approve or decline a donation you have claimed. Declines need a reason
+// (see resolveDeclineReason).
+export const decideDonation = async (
+  donationId: Id,
+  adminId: Id,
+  decision: ReviewDecision,
+  input: { reason?: string; declineReasonId?: string } = {}
+): Promise<IDonation> => {
+  if (!mongoose.isValidObjectId(donationId)) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const donation = await Donation.findById(donationId);
+  if (!donation) {
+    throw new HttpError(404, 'Donation not found');
+  }
+  if (isClaimedByOther(donation, adminId)) {
+    throw new DonationClaimedError(donation);
+  }
+  if (donation.claimed_by?.toString() !== adminId.toString() || !donation.claim_expires_at ||
+      donation.claim_expires_at <= new Date()) {
+    throw new HttpError(409, 'Claim this donation before deciding on it', { code: 'CLAIM_REQUIRED' });
+  }
+
+  const decline = decision === 'decline'
+    ? await resolveDeclineReason(input.declineReasonId, input.reason)
+    : undefined;
+
+  const updated = await changeDonationStatus(donation._id, DECISION_STATUS[decision], {
+    actor: adminId,
+    reason: decline ? decline.message : input.reason,
+    decline,
+  });
+
+  emitQueueUpdated(donation._id, 'decided', adminId);
+  return updated;
+};
+
+export const addReviewNote = async (donationId: Id, authorId: Id, note: string): Promise<IDonationNote> => {
+  if (!mongoose.isValidObjectId(donationId) || !(await Donation.exists({ _id: donationId }))) {
+    throw new HttpError(404, 'Donation not found');
+  }
+
+  const created = await DonationNote.create({ donation_id: donationId, author_id: authorId, note });
+
+  // Working on a donation keeps your claim alive
+  await Donation.updateOne(
+    { _id: donationId, status: 'pending', claimed_by: authorId, claim_expires_at: { $gt: new Date() } },
+    { $set: { claim_expires_at: new Date(Date.now() + getClaimTimeoutMs()) } }
+  );
+
+  return created;
+};
+
+export const listReviewNotes = async (donationId: Id) =>
+  DonationNote.find({ donation_id: donationId })
+    .populate('author_id', 'full_name email')
+    .sort({ created_at: 1 })
+    .lean();
+
+// Queue size, who is reviewing what, and how long decisions take
+export const getQueueOverview = async () => {
+  const now = new Date();
+  const since = new Date(now.getTime() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [pendingCount, availableCount, inReview, decisionStats] = await Promise.all([
+    Donation.countDocuments({ status: 'pending' }),
+    Donation.countDocuments(availableFilter()),
+    Donation.find({ status: 'pending', claim_expires_at: { $gt: now } })
+      .select('amount created_at claimed_by claimed_at claim_expires_at')
+      .populate('claimed_by', 'full_name email')
+      .sort({ claimed_at: 1 })
+      .lean(),
+    // Time from submission to the first approve/decline by a reviewer, over
+    // the stats window. Donors cancelling their own donations don't count.
+    Donation.aggregate([
+      { $unwind: '$status_history' },
+      {
+        $match: {
+          'status_history.from': 'pending',
+          'status_history.to': { $in: ['confirmed', 'cancelled'] },
+          'status_history.changed_at': { $gte: since },
+          'status_history.actor': { $ne: null },
+        },
+      },
+      {
+        $lookup: {
+          from: User.collection.name,
+          localField: 'status_history.actor',
+          foreignField: '_id',
+          pipeline: [{ $project: { role: 1 } }],
+          as: 'decided_by',
+        },
+      },
+      { $match: { 'decided_by.role': { $in: REVIEWER_ROLES } } },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          average_ms: { $avg: { $subtract: ['$status_history.changed_at', '$created_at'] } },
+        },
+      },
+    ]),
+  ]);
+
+  const oldest = await Donation.findOne({ status: 'pending' }).sort({ created_at: 1 }).select('created_at').lean();
+
+  return {
+    pending_count: pendingCount,
+    available_count: availableCount,
+    in_review_count: inReview.length,
+    oldest_pending_at: oldest?.created_at.toISOString(),
+    in_review: inReview.map((donation) => ({
+      donation_id: donation._id.toString(),
+      amount: donation.amount,
+      created_at: donation.created_at.toISOString(),
+      claimed_by: donation.claimed_by,
+      claimed_at: donation.claimed_at?.toISOString(),
+      claim_expires_at: donation.claim_expires_at?.toISOString(),
+    })),
+    decisions: {
+      window_days: STATS_WINDOW_DAYS,
+      count: decisionStats[0]?.count || 0,
+      average_time_to_decision_seconds: decisionStats[0]
+        ? Math.round(decisionStats[0].average_ms / 1000)
+        : null,
+    },
+  };
+};
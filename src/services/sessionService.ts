@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import User, { IUser } from '../models/User';
+import { getIO } from '../socket/io';
+import { HttpError } from '../utils/errors';
+
+export interface ClientInfo {
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export interface TokenPair {
+  token: string; // Short-lived access token (JWT)
+  refresh_token: string;
+  expires_in: string | number;
+}
+
+interface AccessTokenPayload {
+  id: string;
+  sid: string;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined in environment variables');
+  }
+  return secret;
+};
+
+const getAccessTokenTTL = (): string => process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+
+const getRefreshTokenTTLMs = (): number => {
+  const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10) || 30;
+  return days * 24 * 60 * 60 * 1000;
+};
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Refresh tokens are "<sessionId>.<secret>" so the session can be found
+// without scanning every hash.
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+};
+
+const signAccessToken = (userId: string, sessionId: string): string => {
+  // expiresIn accepts values like '15m' or seconds; cast to satisfy the ms StringValue type
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return jwt.sign({ id: userId, sid: sessionId }, getSecret(), { expiresIn: getAccessTokenTTL() } as any);
+};
+
+const isSessionUsable = (session: ISession | null): session is ISession =>
+  !!session && !session.revoked_at && session.expires_at > new Date();
+
+// Start a new session for a user and return its first token pair
+export const createSession = async (
+  userId: mongoose.Types.ObjectId | string,
+  client: ClientInfo = {}
+): Promise<TokenPair> => {
+  const secret = crypto.randomBytes(48).toString('hex');
+  const session = await Session.create({
+    user_id: userId,
+    refresh_token_hash: hashToken(secret),
+    user_agent: client.user_agent?.slice(0, 500),
+    ip_address: client.ip_address,
+    expires_at: new Date(Date.now() + getRefreshTokenTTLMs()),
+  });
+
+  const sessionId = session._id.toString();
+  return {
+    token: signAccessToken(userId.toString(), sessionId),
+    refresh_token: `${sessionId}.${secret}`,
+    expires_in: getAccessTokenTTL(),
+  };
+};
+
+// Exchange a refresh token for a new pair. The refresh token is rotated on
+// every use; presenting an already-rotated token revokes the whole session,
+// since it means the token was copied.
+export const refreshSession = async (
+  refreshToken: string,
+  client: ClientInfo = {}
+): Promise<TokenPair> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    throw new HttpError(401, 'Invalid refresh token');
+  }
+
+  const session = await Session.findById(parsed.sessionId).select('+refresh_token_hash');
+  if (!isSessionUsable(session)) {
+    throw new HttpError(401, 'Session expired or revoked');
+  }
+
+  if (session.refresh_token_hash !== hashToken(parsed.secret)) {
+    await revokeSession(session._id, 'refresh_token_reuse');
+    throw new HttpError(401, 'Session expired or revoked');
+  }
+
+  const secret = crypto.randomBytes(48).toString('hex');
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refresh_token_hash: session.refresh_token_hash, revoked_at: null },
+    {
+      refresh_token_hash: hashToken(secret),
+      last_used_at: new Date(),
+      ...(client.user_agent && { user_agent: client.user_agent.slice(0, 500) }),
+      ...(client.ip_address && { ip_address: client.ip_address }),
+    },
+    { new: true }
+  );
+
+  // Another request rotated the token first
+  if (!rotated) {
+    throw new HttpError(401, 'Session expired or revoked');
+  }
+
+  const sessionId = session._id.toString();
+  return {
+    token: signAccessToken(session.user_id.toString(), sessionId),
+    refresh_token: `${sessionId}.${secret}`,
+    expires_in: getAccessTokenTTL(),
+  };
+};
+
+// Disconnect any sockets authenticated with the given sessions
+const disconnectSessionSockets = (sessionIds: string[]): void => {
+  const io = getIO();
+  if (!io) return;
+  sessionIds.forEach((id) => io.in(`session:${id}`).disconnectSockets(true));
+};
+
+export const revokeSession = async (
+  sessionId: mongoose.Types.ObjectId | string,
+  reason: string,
+  userId?: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+  const query: any = { _id: sessionId, revoked_at: null };
+  if (userId) query.user_id = userId;
+
+  const session = await Session.findOneAndUpdate(
+    query,
+    { revoked_at: new Date(), revoked_reason: reason },
+    { new: true }
+  );
+
+  if (session) {
+    disconnectSessionSockets([session._id.toString()]);
+  }
+  return !!session;
+};
+
+// Revoke every active session for a user, optionally keeping one
+export const revokeAllSessions = async (
+  userId: mongoose.Types.ObjectId | string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const query: any = { user_id: userId, revoked_at: null };
+  if (exceptSessionId) query._id = { $ne: exceptSessionId };
+
+  const sessions = await Session.find(query).select('_id').lean();
+  if (sessions.length === 0) return 0;
+
+  const ids = sessions.map((s) => s._id);
+  await Session.updateMany(
+    { _id: { $in: ids } },
+    { revoked_at: new Date(), revoked_reason: reason }
+  );
+
+  disconnectSessionSockets(ids.map((id) => id.toString()));
+  return ids.length;
+};
+
+export const listActiveSessions = async (userId: mongoose.Types.ObjectId | string) =>
+  Session.find({ user_id: userId, revoked_at: null, expires_at: { $gt: new Date() } })
+    .sort({ last_used_at: -1 })
+    .lean();
+
+// Verify an access token and its session. Shared by the HTTP and socket
+// authentication middleware.
+export const verifyAccessToken = async (
+  token: string
+): Promise<{ user: IUser; sessionId: string }> => {
+  let decoded: AccessTokenPayload;
+  try {
+    decoded = jwt.verify(token, getSecret()) as AccessTokenPayload;
+  } catch {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+
+  // Tokens issued before sessions existed cannot be revoked, so they are no longer accepted
+  if (!decoded.sid) {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+
+  const session = await Session.findById(decoded.sid).lean();
+  if (!session || session.revoked_at || session.expires_at <= new Date() ||
+      session.user_id.toString() !== decoded.id) {
+    throw new HttpError(401, 'Session expired or revoked');
+  }
+
+  const user = await User.findById(decoded.id).select('-password');
+  if (!user) {
+    throw new HttpError(401, 'User not found');
+  }
+
+  return { user, sessionId: decoded.sid };
+};
@@ -0,0 +1,208 @@
+import mongoose from 'mongoose';
+import AuthThrottle, { IAuthThrottle, ThrottleAction, ThrottleScope } from '../models/AuthThrottle';
+import ActivityLog from '../models/ActivityLog';
+import User from '../models/User';
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Limits are read on every call so they can be changed through the environment
+export const getThrottleConfig = () => ({
+  accountMaxFailures: envInt('AUTH_ACCOUNT_MAX_FAILURES', 5),
+  ipMaxFailures: envInt('AUTH_IP_MAX_FAILURES', 20),
+  windowMs: envInt('AUTH_FAILURE_WINDOW_MINUTES', 15) * 60000,
+  lockoutMs: envInt('AUTH_LOCKOUT_MINUTES', 15) * 60000,
+  delayBaseMs: envInt('AUTH_DELAY_BASE_MS', 250),
+  delayMaxMs: envInt('AUTH_DELAY_MAX_MS', 5000),
+});
+
+export interface ThrottleSubject {
+  ip?: string;
+  account?: string; // Normalized email, when the request names an account
+}
+
+const buildKey = (action: ThrottleAction, scope: ThrottleScope, identifier: string) =>
+  `${action}:${scope}:${identifier}`;
+
+const subjectKeys = (action: ThrottleAction, subject: ThrottleSubject) => {
+  const keys: { scope: ThrottleScope; identifier: string; key: string }[] = [];
+  if (subject.ip) {
+    keys.push({ scope: 'ip', identifier: subject.ip, key: buildKey(action, 'ip', subject.ip) });
+  }
+  if (subject.account) {
+    const account = subject.account.toLowerCase();
+    keys.push({ scope: 'account', identifier: account, key: buildKey(action, 'account', account) });
+  }
+  return keys;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const logLockEvent = async (
+  action: 'AUTH_LOCKED' | 'AUTH_UNLOCKED',
+  record: IAuthThrottle,
+  details: Record<string, any> = {},
+  actorId?: mongoose.Types.ObjectId
+): Promise<void> => {
+  try {
+    // Attach account locks to the user they protect when we know them
+    let userId = actorId;
+    if (!userId && record.scope === 'account') {
+      const user = await User.findOne({ email: record.identifier }).select('_id').lean();
+      userId = user?._id;
+    }
+
+    await ActivityLog.create({
+      user_id: userId,
+      action,
+      resource_type: 'auth_throttle',
+      resource_id: record._id,
+      details: {
+        throttle_action: record.action,
+        scope: record.scope,
+        identifier: record.identifier,
+        locked_until: record.locked_until,
+        lock_count: record.lock_count,
+        ...details,
+      },
+    });
+  } catch (error) {
+    console.error('Error logging lock event:', error);
+  }
+};
+
+// Clear locks whose time has run out, logging each unlock once. Limited to
+// `keys` when given. Runs whenever a throttled request or the admin lock list
+// looks at the locks, so the activity log shows when every lock ended.
+const releaseExpiredLocks = async (keys?: string[]): Promise<void> => {
+  const filter: Record<string, any> = { locked_until: { $ne: null, $lte: new Date() } };
+  if (keys) {
+    filter.key = { $in: keys };
+  }
+
+  // Clearing one record at a time makes sure only one caller logs it
+  let record: IAuthThrottle | null;
+  while ((record = await AuthThrottle.findOneAndUpdate(filter, { locked_until: null }))) {
+    await logLockEvent('AUTH_UNLOCKED', record, { reason: 'expired' });
+  }
+};
+
+// Returns how long the caller must wait if any key for this subject is locked
+export const getLockStatus = async (
+  action: ThrottleAction,
+  subject: ThrottleSubject
+): Promise<{ locked: boolean; retryAfterSeconds: number }> => {
+  const keys = subjectKeys(action, subject).map((k) => k.key);
+  if (keys.length === 0) {
+    return { locked: false, retryAfterSeconds: 0 };
+  }
+  await releaseExpiredLocks(keys);
+
+  const now = new Date();
+  const locks = await AuthThrottle.find({ key: { $in: keys }, locked_until: { $gt: now } }).lean();
+  if (locks.length === 0) {
+    return { locked: false, retryAfterSeconds: 0 };
+  }
+
+  const until = Math.max(...locks.map((l) => l.locked_until!.getTime()));
+  return { locked: true, retryAfterSeconds: Math.ceil((until - now.getTime()) / 1000) };
+};
+
+// Count a failed attempt for every key of the subject, locking keys that
+// reach their limit. Waits a progressively longer time before returning so
+// repeated guesses slow down even before the lockout.
+export const recordFailure = async (
+  action: ThrottleAction,
+  subject: ThrottleSubject
+): Promise<void> => {
+  const config = getThrottleConfig();
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - config.windowMs);
+  const expiresAt = new Date(now.getTime() + config.windowMs + config.lockoutMs);
+  let highestFailures = 0;
+
+  await releaseExpiredLocks(subjectKeys(action, subject).map((k) => k.key));
+  for (const { scope, identifier, key } of subjectKeys(action, subject)) {
+    // Start a new window if the last failure is old
+    await AuthThrottle.updateOne(
+      { key, last_failure_at: { $lt: windowStart } },
+      { failures: 0 }
+    );
+
+    const record = await AuthThrottle.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: { last_failure_at: now, expires_at: expiresAt },
+        $setOnInsert: { action, scope, identifier },
+      },
+      { upsert: true, new: true }
+    );
+
+    highestFailures = Math.max(highestFailures, record.failures);
+
+    const limit = scope === 'account' ? config.accountMaxFailures : config.ipMaxFailures;
+    if (record.failures >= limit) {
+      const locked = await AuthThrottle.findOneAndUpdate(
+        { _id: record._id, failures: { $gte: limit } },
+        {
+          $set: { failures: 0, locked_until: new Date(now.getTime() + config.lockoutMs) },
+          $inc: { lock_count: 1 },
+        },
+        { new: true }
+      );
+      if (locked) {
+        await logLockEvent('AUTH_LOCKED', locked, { failures: record.failures });
+      }
+    }
+  }
+
+  if (highestFailures > 0) {
+    await sleep(Math.min(config.delayBaseMs * 2 ** (highestFailures - 1), config.delayMaxMs));
+  }
+};
+
+// A successful attempt clears the account's failure count. IP counters are
+// left alone since many accounts can share an address.
+export const recordSuccess = async (
+  action: ThrottleAction,
+  subject: ThrottleSubject
+): Promise<void> => {
+  if (!subject.account) return;
+  const key = buildKey(action, 'account', subject.account.toLowerCase());
+  await releaseExpiredLocks([key]);
+  await AuthThrottle.updateOne(
+    { key, locked_until: { $not: { $gt: new Date() } } },
+    { failures: 0 }
+  );
+};
+
+export const listActiveLocks = async () => {
+  await releaseExpiredLocks();
+  return AuthThrottle.find({ locked_until: { $gt: new Date() } })
+    .sort({ locked_until: -1 })
+    .lean();
+};
+
+// Admin action: lift a lock and reset its counter. Returns the record as it
+// was before, or null when there is none.
+export const clearLock = async (
+  id: string,
+  adminId: mongoose.Types.ObjectId
+): Promise<IAuthThrottle | null> => {
+  const record = await AuthThrottle.findByIdAndUpdate(id, { failures: 0, locked_until: null });
+
+  if (record?.locked_until) {
+    // A lock that had already run out ended on its own
+    const expired = record.locked_until <= new Date();
+    await logLockEvent(
+      'AUTH_UNLOCKED',
+      record,
+      expired ? { reason: 'expired' } : { reason: 'admin', cleared_by: adminId.toString() },
+      expired ? undefined : adminId
+    );
+  }
+  return record;
+};
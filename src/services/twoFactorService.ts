@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { isStaffRole } from '../config/permissions';
+import User, { IUser } from '../models/User';
+import { HttpError } from '../utils/errors';
+import { buildOtpauthUri, generateSecret, verifyTotp } from '../utils/totp';
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'BANG CHAN Donation';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+const hashCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined in environment variables');
+  }
+  return secret;
+};
+
+// Whether staff (any role with admin access) must have 2FA enabled before
+// using admin routes
+export const isTwoFactorRequiredForAdmins = (): boolean =>
+  process.env.REQUIRE_ADMIN_2FA === 'true';
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+
+const loadUserWithSecrets = async (userId: mongoose.Types.ObjectId | string): Promise<IUser> => {
+  const user = await User.findById(userId)
+    .select('+two_factor_secret +two_factor_recovery_codes +two_factor_last_step +password');
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+  return user;
+};
+
+// Start enrollment: store a new secret (not yet active) and return it with
+// an otpauth:// URI for QR codes.
+export const beginEnrollment = async (userId: mongoose.Types.ObjectId | string) => {
+  const user = await loadUserWithSecrets(userId);
+  if (user.two_factor_enabled) {
+    throw new HttpError(400, 'Two-factor authentication is already enabled');
+  }
+
+  const secret = generateSecret();
+  user.two_factor_secret = secret;
+  user.two_factor_last_step = undefined;
+  await user.save();
+
+  return {
+    secret,
+    otpauth_uri: buildOtpauthUri(secret, user.email, ISSUER),
+  };
+};
+
+// Accept a TOTP code and remember its step so it cannot be used twice
+const acceptTotp = (user: IUser, code: string): boolean => {
+  if (!user.two_factor_secret) return false;
+
+  const step = verifyTotp(user.two_factor_secret, code);
+  if (step === null) return false;
+  if (user.two_factor_last_step !== undefined && user.two_factor_last_step !== null &&
+      step <= user.two_factor_last_step) {
+    return false;
+  }
+
+  user.two_factor_last_step = step;
+  return true;
+};
+
+// Finish enrollment with a code from the authenticator app. Returns the
+// recovery codes; they are only ever shown here.
+export const confirmEnrollment = async (
+  userId: mongoose.Types.ObjectId | string,
+  code: string
+): Promise<string[]> => {
+  const user = await loadUserWithSecrets(userId);
+  if (user.two_factor_enabled) {
+    throw new HttpError(400, 'Two-factor authentication is already enabled');
+  }
+  if (!user.two_factor_secret) {
+    throw new HttpError(400, 'Start two-factor setup first');
+  }
+  if (!acceptTotp(user, code)) {
+    throw new HttpError(400, 'Invalid authentication code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  user.two_factor_enabled = true;
+  user.two_factor_recovery_codes = recoveryCodes.map(hashCode);
+  await user.save();
+
+  return recoveryCodes;
+};
+
+// Check a TOTP code or, failing that, a one-time recovery code.
+// Used recovery codes are removed. Saves the user when a code is accepted.
+export const verifySecondFactor = async (
+  user: IUser,
+  code: string
+): Promise<{ method: 'totp' | 'recovery_code' } | null> => {
+  if (acceptTotp(user, code)) {
+    await user.save();
+    return { method: 'totp' };
+  }
+
+  const codes = user.two_factor_recovery_codes || [];
+  const index = codes.indexOf(hashCode(code));
+  if (index !== -1) {
+    user.two_factor_recovery_codes = codes.filter((_, i) => i !== index);
+    await user.save();
+    return { method: 'recovery_code' };
+  }
+
+  return null;
+};
+
+export const regenerateRecoveryCodes = async (
+  userId: mongoose.Types.ObjectId | string,
+  code: string
+): Promise<string[]> => {
+  const user = await loadUserWithSecrets(userId);
+  if (!user.two_factor_enabled) {
+    throw new HttpError(400, 'Two-factor authentication is not enabled');
+  }
+  if (!acceptTotp(user, code)) {
+    throw new HttpError(400, 'Invalid authentication code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  user.two_factor_recovery_codes = recoveryCodes.map(hashCode);
+  await user.save();
+
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = async (
+  userId: mongoose.Types.ObjectId | string,
+  password: string,
+  code: string
+): Promise<void> => {
+  const user = await loadUserWithSecrets(userId);
+  if (!user.two_factor_enabled) {
+    throw new HttpError(400, 'Two-factor authentication is not enabled');
+  }
+  if (isStaffRole(user.role) && isTwoFactorRequiredForAdmins()) {
+    throw new HttpError(403, 'Two-factor authentication is required for admin accounts');
+  }
+  if (!(await user.comparePassword(password))) {
+    throw new HttpError(401, 'Password is incorrect');
+  }
+  if (!(await verifySecondFactor(user, code))) {
+    throw new HttpError(400, 'Invalid authentication code');
+  }
+
+  user.two_factor_enabled = false;
+  user.two_factor_secret = undefined;
+  user.two_factor_recovery_codes = undefined;
+  user.two_factor_last_step = undefined;
+  await user.save();
+};
+
+// Short-lived token proving the password step of login succeeded
+export const createLoginChallenge = (userId: string): string =>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  jwt.sign({ id: userId, purpose: CHALLENGE_PURPOSE }, getSecret(), { expiresIn: CHALLENGE_TTL } as any);
+
+// Check a challenge token and return the user it was issued to, so the
+// caller can apply the account's login throttle before the code is checked
+export const openLoginChallenge = async (challengeToken: string): Promise<IUser> => {
+  let decoded: { id: string; purpose?: string };
+  try {
+    decoded = jwt.verify(challengeToken, getSecret()) as { id: string; purpose?: string };
+  } catch {
+    throw new HttpError(401, 'Login challenge expired. Please sign in again.');
+  }
+  if (decoded.purpose !== CHALLENGE_PURPOSE) {
+    throw new HttpError(401, 'Invalid login challenge');
+  }
+
+  const user = await loadUserWithSecrets(decoded.id);
+  if (!user.two_factor_enabled) {
+    throw new HttpError(401, 'Invalid login challenge');
+  }
+
+  return user;
+};
+
+// Second login step: check the code for a user from openLoginChallenge
+export const completeLoginChallenge = async (user: IUser, code: string): Promise<void> => {
+  if (!(await verifySecondFactor(user, code))) {
+    throw new HttpError(401, 'Invalid authentication code');
+  }
+};
@@ -0,0 +1,10 @@
+import { Server as SocketIOServer } from 'socket.io';
+
+// Holds the Socket.IO server so services can emit events without importing server.ts
+let ioInstance: SocketIOServer | null = null;
+
+export const setIO = (io: SocketIOServer): void => {
+  ioInstance = io;
+};
+
+export const getIO = (): SocketIOServer | null => ioInstance;
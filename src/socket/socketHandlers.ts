@@ -1,11 +1,27 @@
 import { Server as SocketIOServer } from 'socket.io';
-import jwt from 'jsonwebtoken';
-import User from '../models/User';
-import Donation from '../models/Donation';
+import { DONATION_STATUSES, DonationStatus } from '../models/Donation';
+import {
+  createDonation,
+  changeDonationStatus,
+  CreateDonationInput,
+  formatDonationCreated,
+  resolveDeclineReason,
+} from '../services/donationService';
+import { verifyAccessToken } from '../services/sessionService';
+import { hasPermission } from '../config/permissions';
+import { isTwoFactorRequiredForAdmins } from '../services/twoFactorService';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+} from '../services/idempotencyService';
+import { IIdempotencyKey } from '../models/IdempotencyKey';
+import { isHttpError } from '../utils/errors';
 
 interface AuthenticatedSocket {
   userId?: string;
   user?: any;
+  sessionId?: string;
 }
 
 export const setupSocketHandlers = (io: SocketIOServer) => {
@@ -18,19 +34,16 @@ export const setupSocketHandlers = (io: SocketIOServer) => {
         return next(new Error('Authentication error'));
       }
 
-      const secret = process.env.JWT_SECRET;
-      if (!secret) {
+      if (!process.env.JWT_SECRET) {
         return next(new Error('JWT_SECRET not configured'));
       }
-      const decoded = jwt.verify(token, secret) as { id: string };
-      const user = await User.findById(decoded.id).select('-password');
-      
-      if (!user) {
-        return next(new Error('User not found'));
-      }
 
-      socket.userId = decoded.id;
+      // Rejects revoked sessions as well as bad or expired tokens
+      const { user, sessionId } = await verifyAccessToken(token);
+
+      socket.userId = user._id.toString();
       socket.user = user;
+      socket.sessionId = sessionId;
       next();
     } catch (error) {
       next(new Error('Authentication error'));
@@ -43,106 +56,109 @@ export const setupSocketHandlers = (io: SocketIOServer) => {
     // Join user's personal room
     socket.join(`user:${socket.userId}`);
 
-    // Handle donation creation
-    socket.on('donation:create', async (data: any) => {
-      try {
-        const donation = await Donation.create({
-          user_id: socket.userId,
-          ...data,
-          status: 'pending',
-        });
+    // Join the session room so revoking the session can disconnect this socket
+    socket.join(`session:${socket.sessionId}`);
 
-        // Emit to the user who created the donation
-        socket.emit('donation:created', {
-          id: donation._id,
-          amount: donation.amount,
-          status: donation.status,
-          created_at: donation.created_at,
-        });
+    // Handle donation creation. An optional `idempotency_key` makes retries
+    // safe: a repeat gets the original donation:created payload back.
+    socket.on('donation:create', async (data: CreateDonationInput & { idempotency_key?: string }) => {
+      let idempotencyRecord: IIdempotencyKey | undefined;
+      try {
+        // Same rule as POST /api/donations
+        if (!socket.user.is_verified) {
+          socket.emit('error', {
+            message: 'Please verify your email address to continue',
+            code: 'EMAIL_NOT_VERIFIED',
+          });
+          return;
+        }
 
-        // Broadcast to all admins
-        io.to('admin').emit('donation:new', {
-          id: donation._id,
-          user_id: socket.userId,
-          amount: donation.amount,
-          created_at: donation.created_at,
-        });
+        const { idempotency_key: idempotencyKey, ...input } = data || {};
+        if (idempotencyKey !== undefined) {
+          const result = await beginIdempotentRequest(
+            socket.userId,
+            'donation:create:socket',
+            idempotencyKey,
+            input
+          );
+          if ('replay' in result) {
+            socket.emit('donation:created', { ...result.replay.body, replayed: true });
+            return;
+          }
+          idempotencyRecord = result.record;
+        }
 
-        // Update stats for all connected clients
-        const stats = await Donation.aggregate([
-          {
-            $match: {
-              status: { $in: ['confirmed', 'completed'] },
-            },
-          },
-          {
-            $group: {
-              _id: null,
-              total_raised: { $sum: '$amount' },
-              total_donations: { $sum: 1 },
-              unique_donors: { $addToSet: '$user_id' },
-            },
-          },
-        ]);
-
-        io.emit('stats:update', {
-          total_raised: stats[0]?.total_raised || 0,
-          total_supporters: stats[0]?.unique_donors?.length || 0,
-        });
+        // The service validates input, ignores unknown fields and emits
+        // donation:created, donation:new and stats:update
+        const donation = await createDonation(socket.userId, input);
+
+        // The donation exists now, so a failure to store the response must
+        // not release the key
+        const record = idempotencyRecord;
+        idempotencyRecord = undefined;
+        if (record) {
+          await completeIdempotentRequest(record, 201, formatDonationCreated(donation))
+            .catch((error) => console.error('Error storing idempotent response:', error));
+        }
       } catch (error) {
+        if (idempotencyRecord) {
+          await releaseIdempotentRequest(idempotencyRecord);
+        }
+        if (isHttpError(error)) {
+          socket.emit('error', { message: error.message, status: error.status, ...error.details });
+          return;
+        }
         socket.emit('error', { message: 'Failed to create donation' });
       }
     });
 
     // Handle donation status updates (admin only)
-    socket.on('donation:update-status', async (data: { donationId: string; status: string }) => {
+    socket.on('donation:update-status', async (data: {
+      donationId: string;
+      status: DonationStatus;
+      reason?: string;
+      decline_reason_id?: string;
+    }) => {
       try {
-        if (socket.user.role !== 'admin') {
+        if (!hasPermission(socket.user.role, 'donations:review')) {
           socket.emit('error', { message: 'Unauthorized' });
           return;
         }
 
-        const donation = await Donation.findByIdAndUpdate(
-          data.donationId,
-          { status: data.status },
-          { new: true }
-        );
-
-        if (donation) {
-          // Notify the user who made the donation
-          io.to(`user:${donation.user_id}`).emit('donation:status-updated', {
-            id: donation._id,
-            status: donation.status,
+        if (isTwoFactorRequiredForAdmins() && !socket.user.two_factor_enabled) {
+          socket.emit('error', {
+            message: 'Two-factor authentication must be enabled for admin accounts',
+            code: 'TWO_FACTOR_SETUP_REQUIRED',
           });
+          return;
+        }
 
-          // Broadcast stats update
-          const stats = await Donation.aggregate([
-            {
-              $match: {
-                status: { $in: ['confirmed', 'completed'] },
-              },
-            },
-            {
-              $group: {
-                _id: null,
-                total_raised: { $sum: '$amount' },
-                unique_donors: { $addToSet: '$user_id' },
-              },
-            },
-          ]);
-
-          io.emit('stats:update', {
-            total_raised: stats[0]?.total_raised || 0,
-            total_supporters: stats[0]?.unique_donors?.length || 0,
-          });
+        if (!DONATION_STATUSES.includes(data.status)) {
+          socket.emit('error', { message: 'Invalid status' });
+          return;
         }
+
+        const decline = data.status === 'cancelled'
+          ? await resolveDeclineReason(data.decline_reason_id, data.reason)
+          : undefined;
+
+        // Emits donation:status-updated and stats:update
+        await changeDonationStatus(data.donationId, data.status, {
+          actor: socket.userId,
+          reason: decline ? decline.message : data.reason,
+          decline,
+        });
       } catch (error) {
+        if (isHttpError(error)) {
+          socket.emit('error', { message: error.message, status: error.status, ...error.details });
+          return;
+        }
         socket.emit('error', { message: 'Failed to update donation status' });
       }
     });
 
-    // Join admin room if user is admin
-    if (socket.user.role === 'admin') {
+    // Staff who can see all donations get the admin feed
+    if (hasPermission(socket.user.role, 'donations:read')) {
       socket.join('admin');
     }
 
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+export interface StoredFile {
+  body: Readable;
+  content_type?: string;
+  size?: number;
+}
+
+// Where uploaded files live. Keys are relative, slash-separated paths such as
+// "receipts/2024/05/<uuid>.jpg"; drivers decide how they map to storage.
+export interface FileStorage {
+  name: string;
+  put(key: string, body: Buffer, options?: { content_type?: string }): Promise<void>;
+  get(key: string): Promise<StoredFile | null>; // null when the key does not exist
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.pdf': 'application/pdf',
+};
+
+// Files on the local disk. Fine for development and single-server installs
+// with a persistent volume; files are lost on hosts with an ephemeral disk.
+export class LocalStorage implements FileStorage {
+  name = 'local';
+
+  constructor(private root: string) {
+    this.root = path.resolve(root);
+    if (!fs.existsSync(this.root)) {
+      fs.mkdirSync(this.root, { recursive: true });
+    }
+  }
+
+  // Never let a key escape the storage root
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    if (!fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, body);
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    const fullPath = this.resolve(key);
+    try {
+      const stat = await fs.promises.stat(fullPath);
+      return {
+        body: fs.createReadStream(fullPath),
+        content_type: CONTENT_TYPES[path.extname(fullPath).toLowerCase()],
+        size: stat.size,
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // For S3-compatible services such as MinIO or R2
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean; // MinIO needs path-style URLs
+  prefix?: string;
+}
+
+// Amazon S3 or any S3-compatible object store
+export class S3Storage implements FileStorage {
+  name = 's3';
+  private client: S3Client;
+
+  constructor(private options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      ...(options.accessKeyId && {
+        credentials: {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey || '',
+        },
+      }),
+    });
+  }
+
+  private objectKey(key: string): string {
+    return this.options.prefix ? `${this.options.prefix.replace(/\/+$/, '')}/${key}` : key;
+  }
+
+  async put(key: string, body: Buffer, options: { content_type?: string } = {}): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentType: options.content_type,
+    }));
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return {
+        body: result.Body as Readable,
+        content_type: result.ContentType,
+        size: result.ContentLength,
+      };
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return true;
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+}
+
+export const DEFAULT_LOCAL_DIR = path.join(__dirname, '../../uploads');
+
+// Pick a driver from STORAGE_DRIVER (local or s3)
+export const createStorageFromEnv = (): FileStorage => {
+  const kind = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+  if (kind === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('STORAGE_DRIVER=s3 but S3_BUCKET is not set');
+    }
+    return new S3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      prefix: process.env.S3_PREFIX,
+    });
+  }
+
+  if (kind !== 'local') {
+    console.error(`⚠️  Unknown STORAGE_DRIVER "${kind}", using local storage`);
+  }
+  return new LocalStorage(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+};
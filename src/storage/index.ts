@@ -0,0 +1,17 @@
+import { createStorageFromEnv, FileStorage } from './drivers';
+
+export { FileStorage, StoredFile, LocalStorage, S3Storage, DEFAULT_LOCAL_DIR } from './drivers';
+
+let storage: FileStorage | null = null;
+
+export const getStorage = (): FileStorage => {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+};
+
+// Override the driver, e.g. with a LocalStorage on a temp directory in tests
+export const setStorage = (next: FileStorage): void => {
+  storage = next;
+};
@@ -0,0 +1,16 @@
+// Error carrying an HTTP status code. The global error handler in server.ts
+// already reads `err.status`, and routes can map it directly to a response.
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(status: number, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const isHttpError = (error: unknown): error is HttpError =>
+  error instanceof HttpError;
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+
+// Field-level encryption for sensitive values stored in MongoDB (payment
+// details, receiving accounts). AES-256-GCM with keys from the environment:
+//
+//   FIELD_ENCRYPTION_KEYS="2024-06:<base64 32 bytes>,2023-01:<base64 32 bytes>"
+//
+// The first key encrypts new values; every listed key can decrypt. To rotate,
+// put a new key first, keep the old ones, run `yarn rotate-field-encryption`,
+// then drop the old keys. Encrypted values look like
+// "enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>" (base64 parts).
+
+const PREFIX = 'enc:v1:';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedSource: string | undefined;
+let cachedKeys: EncryptionKey[] = [];
+let warnedMissingKeys = false;
+
+const getKeys = (): EncryptionKey[] => {
+  const source = process.env.FIELD_ENCRYPTION_KEYS || '';
+  if (source === cachedSource) {
+    return cachedKeys;
+  }
+
+  cachedKeys = source
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator < 1 || key.length !== 32) {
+        throw new Error('FIELD_ENCRYPTION_KEYS entries must be "<id>:<base64 encoded 32 byte key>"');
+      }
+      return { id, key };
+    });
+  cachedSource = source;
+  return cachedKeys;
+};
+
+export const isEncryptionConfigured = (): boolean => getKeys().length > 0;
+
+// Storing payment details in plaintext is only acceptable in development, so
+// production refuses to run without keys. Called at startup and before every
+// write; outside production it logs a warning once.
+export const assertEncryptionConfigured = (): void => {
+  if (isEncryptionConfigured()) return;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('FIELD_ENCRYPTION_KEYS must be set in production');
+  }
+  if (!warnedMissingKeys) {
+    console.warn('⚠️  FIELD_ENCRYPTION_KEYS is not set, sensitive fields are stored unencrypted');
+    warnedMissingKeys = true;
+  }
+};
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+// Whether a stored value should be rewritten with the current key
+export const needsReencryption = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return false;
+  const keys = getKeys();
+  if (keys.length === 0) return false;
+  if (!isEncrypted(value)) return true;
+  return value.slice(PREFIX.length).split(':')[0] !== keys[0].id;
+};
+
+// Without configured keys values are stored as-is so local development
+// works; in production this throws instead.
+export const encryptField = (value: string): string => {
+  const [current] = getKeys();
+  if (!current) {
+    assertEncryptionConfigured();
+    return value;
+  }
+  if (isEncrypted(value)) {
+    return value;
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', current.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return `${PREFIX}${current.id}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+};
+
+// Values that are not encrypted (written before encryption was enabled) are
+// returned unchanged. Throws if the key is missing or the value was tampered with.
+export const decryptField = (value: string): string => {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [keyId, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const entry = getKeys().find((k) => k.id === keyId);
+  if (!entry) {
+    throw new Error(`No encryption key with id "${keyId}" is configured`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', entry.key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+// For optional fields in responses: a value that cannot be decrypted is
+// logged and left out rather than failing the whole request
+export const decryptOptionalField = (value?: string | null): string | undefined => {
+  if (!value) return undefined;
+  try {
+    return decryptField(value);
+  } catch (error) {
+    console.error('Error decrypting field:', error);
+    return undefined;
+  }
+};
+
+// Re-encrypt with the current key (or encrypt a legacy plaintext value)
+export const reencryptField = (value: string): string => encryptField(decryptField(value));
+
+// Show only the last four characters, e.g. "••••••••3F9A"
+export const maskValue = (value: string): string =>
+  value.length <= 4 ? '••••' : '•'.repeat(Math.min(value.length - 4, 8)) + value.slice(-4);
@@ -0,0 +1,33 @@
+// Identify uploads by their leading bytes instead of the client-supplied
+// mimetype or file extension.
+
+export type DetectedFileType = 'jpeg' | 'png' | 'webp' | 'heic' | 'pdf';
+
+// HEIC is detected only to reject it with a useful message: the bundled
+// sharp cannot decode HEVC
+export type AcceptedFileType = Exclude<DetectedFileType, 'heic'>;
+
+export const FILE_TYPE_INFO: Record<AcceptedFileType, { extension: string; content_type: string }> = {
+  jpeg: { extension: '.jpg', content_type: 'image/jpeg' },
+  png: { extension: '.png', content_type: 'image/png' },
+  webp: { extension: '.webp', content_type: 'image/webp' },
+  pdf: { extension: '.pdf', content_type: 'application/pdf' },
+};
+
+// ISO base media "ftyp" brands used by HEIC/HEIF images (iPhone photos)
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number): string =>
+  buffer.length >= end ? buffer.toString('latin1', start, end) : '';
+
+export const detectFileType = (buffer: Buffer): DetectedFileType | null => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(buffer, 4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(buffer, 8, 12))) return 'heic';
+  if (ascii(buffer, 0, 5) === '%PDF-') return 'pdf';
+  return null;
+};
@@ -0,0 +1,9 @@
+// Amounts formatted for messages and emails: "$500.00", "€20.00", "¥1,000".
+// Codes Intl does not know fall back to "1,000.00 XYZ".
+export const formatMoney = (amount: number, currency = 'USD'): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
+};